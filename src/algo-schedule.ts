@@ -0,0 +1,53 @@
+import { VWAP_HOURLY_PROFILE } from "./types";
+
+// Algo schedules — splitting a parent amount into timed child slices
+
+/**
+ * TWAP: equal slices, the last one taking the rounding remainder so the
+ * slices add up to exactly the total. Amounts are scaled.
+ */
+export function twapSchedule(total: number, slices: number): number[] {
+  return vwapSchedule(total, new Array(slices).fill(1));
+}
+
+/**
+ * VWAP: slices proportional to the volume weights, one slice per weight,
+ * the last one taking the rounding remainder. Amounts are scaled.
+ */
+export function vwapSchedule(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((a, b) => a + b, 0);
+  if (weights.length === 0 || sum <= 0 || weights.some((w) => w < 0)) {
+    throw new Error("Volume weights must be non-negative with a positive sum");
+  }
+
+  const amounts = weights.map((w) => Math.floor((total * w) / sum));
+  const allocated = amounts.slice(0, -1).reduce((a, b) => a + b, 0);
+  amounts[amounts.length - 1] = total - allocated;
+  return amounts;
+}
+
+/**
+ * Volume weights for slices starting at startAt, intervalMs apart, read from
+ * an hourly profile by each slice's UTC hour.
+ */
+export function profileWeights(
+  startAt: number,
+  intervalMs: number,
+  slices: number,
+  profile: number[] = VWAP_HOURLY_PROFILE,
+): number[] {
+  return Array.from({ length: slices }, (_, i) => {
+    const hour = new Date(startAt + i * intervalMs).getUTCHours();
+    return profile[hour];
+  });
+}
+
+/**
+ * What slice `index` should trade: the schedule's cumulative target through
+ * that slice less what has already filled. Slices that were missed or
+ * rejected are caught up by the next one, and it never overfills.
+ */
+export function sliceAmount(schedule: number[], index: number, filled: number): number {
+  const target = schedule.slice(0, index + 1).reduce((a, b) => a + b, 0);
+  return Math.max(0, target - filled);
+}
@@ -0,0 +1,51 @@
+import { STREAM_MAX_BUFFERED_BYTES } from "./types";
+
+// Conflation — keeping only the latest frame per key for a slow socket
+
+// The part of a websocket conflation needs
+export interface BufferedSocket {
+  send(data: string): unknown;
+  getBufferedAmount(): number;
+}
+
+/**
+ * Frames for one socket, keyed by what they are about, e.g. a pair. While
+ * the socket has more than maxBufferedBytes queued, or frames are already
+ * held, a push is held instead of sent and replaces the key's older frame,
+ * so a slow client skips stale values instead of queueing them. drain sends
+ * the held frames, oldest key first, once the socket has room again.
+ */
+export class FrameConflator {
+  private pending = new Map<string, string>();
+
+  constructor(private maxBufferedBytes: number = STREAM_MAX_BUFFERED_BYTES) {}
+
+  isBackpressured(ws: BufferedSocket): boolean {
+    return ws.getBufferedAmount() > this.maxBufferedBytes;
+  }
+
+  push(ws: BufferedSocket, key: string, frame: string): void {
+    if (this.pending.size > 0 || this.isBackpressured(ws)) {
+      this.pending.set(key, frame);
+      return;
+    }
+    ws.send(frame);
+  }
+
+  drain(ws: BufferedSocket): void {
+    for (const [key, frame] of this.pending) {
+      if (this.isBackpressured(ws)) return; // wait for the next drain
+      this.pending.delete(key);
+      ws.send(frame);
+    }
+  }
+
+  // Forget a key's held frame, e.g. on unsubscribe
+  drop(key: string): void {
+    this.pending.delete(key);
+  }
+
+  get held(): number {
+    return this.pending.size;
+  }
+}
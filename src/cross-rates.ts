@@ -0,0 +1,107 @@
+import { MAX_ROUTE_LEGS, SUPPORTED_PAIRS, type Currency, type Side, type SupportedPair } from "./types";
+import { SCALE } from "./money";
+
+// Cross rates — price a currency pair through a chain of listed markets.
+// e.g. EUR → BTC trades EURUSDT then BTCUSDT the other way round.
+
+// One listed market in a route. An inverted leg converts the market's quote
+// currency into its base, e.g. USDT → BTC on BTCUSDT.
+export interface RouteLeg {
+  pair: SupportedPair;
+  inverted: boolean;
+}
+
+// Scaled bid/ask of a listed market
+export interface BidAsk {
+  bid: number;
+  ask: number;
+}
+
+/**
+ * Shortest chain of listed markets converting `from` into `to`, or null if
+ * the currencies are not connected within `maxLegs`.
+ */
+export function findRoute(
+  from: Currency,
+  to: Currency,
+  pairs: SupportedPair[] = SUPPORTED_PAIRS,
+  maxLegs: number = MAX_ROUTE_LEGS,
+): RouteLeg[] | null {
+  // Breadth-first, so the first route found has the fewest legs
+  const queue: { currency: Currency; legs: RouteLeg[] }[] = [{ currency: from, legs: [] }];
+  const visited = new Set<Currency>([from]);
+
+  while (queue.length > 0) {
+    const { currency, legs } = queue.shift()!;
+    if (currency === to) return legs;
+    if (legs.length === maxLegs) continue;
+
+    for (const pair of pairs) {
+      const inverted = pair.quote === currency;
+      if (pair.base !== currency && !inverted) continue;
+
+      const next = inverted ? pair.base : pair.quote;
+      if (visited.has(next)) continue;
+      visited.add(next);
+      queue.push({ currency: next, legs: [...legs, { pair, inverted }] });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Side traded on a leg's listed market when the route is traded on `side`.
+ * Inverted legs trade the opposite side.
+ */
+export function legSide(leg: RouteLeg, side: Side): Side {
+  if (!leg.inverted) return side;
+  return side === "BUY" ? "SELL" : "BUY";
+}
+
+/**
+ * Compose leg prices into the route's bid/ask.
+ *
+ * The route bid sells each leg: a direct leg contributes its bid, an inverted
+ * leg divides by its ask. The route ask mirrors it. Products are taken in
+ * BigInt and rounded once, so small crosses like EUR/BTC keep their precision.
+ */
+export function composeRoute(legs: RouteLeg[], quotes: BidAsk[]): BidAsk {
+  return {
+    bid: crossPrice(legs, quotes, "bid"),
+    ask: crossPrice(legs, quotes, "ask"),
+  };
+}
+
+function crossPrice(legs: RouteLeg[], quotes: BidAsk[], side: "bid" | "ask"): number {
+  const legPrices = legs.map((leg, i) => {
+    // Selling the route sells direct legs and buys inverted ones
+    const sellsLeg = (side === "bid") !== leg.inverted;
+    return sellsLeg ? quotes[i].bid : quotes[i].ask;
+  });
+  return applyRoute(SCALE, legs, legPrices);
+}
+
+/**
+ * Convert a scaled amount of the route's first currency into its last,
+ * given the price traded on each leg's listed market. Direct legs multiply,
+ * inverted legs divide, and the result is rounded once.
+ */
+export function applyRoute(amount: number, legs: RouteLeg[], legPrices: number[]): number {
+  const scale = BigInt(SCALE);
+  let numerator = BigInt(amount);
+  let denominator = 1n;
+
+  legs.forEach((leg, i) => {
+    if (leg.inverted) {
+      numerator *= scale;
+      denominator *= BigInt(legPrices[i]);
+    } else {
+      numerator *= BigInt(legPrices[i]);
+      denominator *= scale;
+    }
+  });
+
+  // Round half up
+  return Number((2n * numerator + denominator) / (2n * denominator));
+}
@@ -1,10 +1,12 @@
-import { sqliteTable, text, integer, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, index, uniqueIndex } from "drizzle-orm/sqlite-core";
+import type { ChildFill, ConsumedLevel, PriceLeg, VenueQuote } from "../types";
 
 // Database schema — Drizzle ORM + SQLite
 
 export const accounts = sqliteTable("accounts", {
   id: text("id").primaryKey(),
   name: text("name").notNull(),
+  pricingGroup: text("pricing_group"), // spread schedule group, e.g. "vip"
   createdAt: integer("created_at").notNull(),
 });
 
@@ -17,40 +19,188 @@ export const balances = sqliteTable(
       .references(() => accounts.id),
     currency: text("currency").notNull(),
     amount: integer("amount").notNull(), // scaled by 10^8
+    reserved: integer("reserved").notNull().default(0), // scaled, held by resting orders
     updatedAt: integer("updated_at").notNull(),
   },
   (t) => [uniqueIndex("balances_account_currency_idx").on(t.accountId, t.currency)],
 );
 
-export const quotes = sqliteTable("quotes", {
+export const quotes = sqliteTable(
+  "quotes",
+  {
+    id: text("id").primaryKey(),
+    accountId: text("account_id")
+      .notNull()
+      .references(() => accounts.id),
+    baseCurrency: text("base_currency").notNull(),
+    quoteCurrency: text("quote_currency").notNull(),
+    side: text("side").notNull(),           // BUY | SELL
+    baseAmount: integer("base_amount").notNull(),   // scaled
+    quoteAmount: integer("quote_amount").notNull(),  // scaled
+    price: integer("price").notNull(),      // scaled
+    expiresAt: integer("expires_at").notNull(),
+    status: text("status").notNull(),       // OPEN | EXECUTED | EXPIRED
+    legs: text("legs", { mode: "json" }).$type<PriceLeg[]>(), // null for listed pairs traded as-is
+    levels: text("levels", { mode: "json" }).$type<ConsumedLevel[]>(),
+    venuePrice: integer("venue_price"),     // scaled, before the spread
+    spreadBps: integer("spread_bps"),
+    fills: text("fills", { mode: "json" }).$type<ChildFill[]>(), // per-venue split
+    venue: text("venue"),                   // best priced venue on the first leg
+    venueQuotes: text("venue_quotes", { mode: "json" }).$type<VenueQuote[]>(), // competing quotes
+    amountCurrency: text("amount_currency"), // the exact leg, null = base currency
+    createdAt: integer("created_at").notNull(),
+  },
+  (t) => [index("quotes_status_expires_idx").on(t.status, t.expiresAt)], // expiry sweep
+);
+
+export const trades = sqliteTable("trades", {
   id: text("id").primaryKey(),
   accountId: text("account_id")
     .notNull()
     .references(() => accounts.id),
+  quoteId: text("quote_id"),              // null for market orders
+  type: text("type").notNull(),           // MARKET | RFQ | LIMIT
   baseCurrency: text("base_currency").notNull(),
   quoteCurrency: text("quote_currency").notNull(),
-  side: text("side").notNull(),           // BUY | SELL
-  baseAmount: integer("base_amount").notNull(),   // scaled
-  quoteAmount: integer("quote_amount").notNull(),  // scaled
-  price: integer("price").notNull(),      // scaled
-  expiresAt: integer("expires_at").notNull(),
-  status: text("status").notNull(),       // OPEN | EXECUTED | EXPIRED
+  side: text("side").notNull(),
+  baseAmount: integer("base_amount").notNull(),
+  quoteAmount: integer("quote_amount").notNull(),
+  price: integer("price").notNull(),
+  legs: text("legs", { mode: "json" }).$type<PriceLeg[]>(), // null for listed pairs traded as-is
+  fills: text("fills", { mode: "json" }).$type<ChildFill[]>(), // per-venue split
+  venue: text("venue"),
+  venueQuotes: text("venue_quotes", { mode: "json" }).$type<VenueQuote[]>(),
+  orderId: text("order_id"),              // the resting order a LIMIT trade filled
+  parentId: text("parent_id"),            // the multi-leg conversion this is a leg of
+  status: text("status").notNull().default("EXECUTED"), // EXECUTED | CANCELLED | CORRECTED
+  replacedBy: text("replaced_by"),        // the correcting trade, when CORRECTED
+  replaces: text("replaces"),             // the trade this one corrects
+  reason: text("reason"),                 // ops reason for a cancel or correction
+  revisedAt: integer("revised_at"),       // when it was cancelled or corrected
+  feeAmount: integer("fee_amount").notNull().default(0), // scaled, charged on top of the trade
+  feeCurrency: text("fee_currency"),      // null on trades booked before fees
+  executedAt: integer("executed_at").notNull(),
   createdAt: integer("created_at").notNull(),
 });
 
-export const trades = sqliteTable("trades", {
+export const orders = sqliteTable(
+  "orders",
+  {
+    id: text("id").primaryKey(),
+    accountId: text("account_id")
+      .notNull()
+      .references(() => accounts.id),
+    clientOrderId: text("client_order_id"), // unique per account when set
+    parentId: text("parent_id"),            // the algo order this is a slice of
+    type: text("type").notNull(),           // MARKET | LIMIT | STOP_LOSS | TAKE_PROFIT
+    baseCurrency: text("base_currency").notNull(),
+    quoteCurrency: text("quote_currency").notNull(),
+    side: text("side").notNull(),
+    baseAmount: integer("base_amount").notNull(),   // scaled
+    limitPrice: integer("limit_price"),     // scaled, spread included; LIMIT, or MARKET protection
+    triggerPrice: integer("trigger_price"), // scaled; STOP_LOSS and TAKE_PROFIT only
+    ocoId: text("oco_id"),                  // the other order of an OCO pair
+    status: text("status").notNull(),       // NEW | TRIGGERED | FILLED | CANCELLED | EXPIRED | REJECTED
+    reservedCurrency: text("reserved_currency").notNull(),
+    reservedAmount: integer("reserved_amount").notNull(), // scaled, released when no longer NEW
+    tradeId: text("trade_id"),
+    reason: text("reason"),                 // why the order was rejected
+    expiresAt: integer("expires_at"),       // null = good till cancelled
+    version: integer("version").notNull().default(0), // bumped on every change, guards amends
+    createdAt: integer("created_at").notNull(),
+    updatedAt: integer("updated_at").notNull(),
+  },
+  (t) => [uniqueIndex("orders_account_client_order_idx").on(t.accountId, t.clientOrderId)],
+);
+
+// Algo parent orders, executed as MARKET child orders with parent_id set
+export const algoOrders = sqliteTable("algo_orders", {
   id: text("id").primaryKey(),
   accountId: text("account_id")
     .notNull()
     .references(() => accounts.id),
-  quoteId: text("quote_id"),              // null for market orders
-  type: text("type").notNull(),           // MARKET | RFQ
+  strategy: text("strategy").notNull(),   // TWAP | VWAP
   baseCurrency: text("base_currency").notNull(),
   quoteCurrency: text("quote_currency").notNull(),
   side: text("side").notNull(),
-  baseAmount: integer("base_amount").notNull(),
-  quoteAmount: integer("quote_amount").notNull(),
-  price: integer("price").notNull(),
-  executedAt: integer("executed_at").notNull(),
+  totalAmount: integer("total_amount").notNull(), // scaled
+  schedule: text("schedule", { mode: "json" }).notNull().$type<number[]>(), // scaled base amount per slice
+  intervalMs: integer("interval_ms").notNull(),
+  slicesDone: integer("slices_done").notNull(), // slices started so far
+  nextSliceAt: integer("next_slice_at"),  // null once done
+  maxSlippageBps: integer("max_slippage_bps"),
+  limitPrice: integer("limit_price"),     // scaled
+  status: text("status").notNull(),       // RUNNING | PAUSED | COMPLETED | CANCELLED | FAILED
+  reason: text("reason"),                 // why the parent failed
   createdAt: integer("created_at").notNull(),
+  updatedAt: integer("updated_at").notNull(),
 });
+
+// Order event history: one row per placement, amendment and status change
+export const orderEvents = sqliteTable("order_events", {
+  id: text("id").primaryKey(),
+  orderId: text("order_id")
+    .notNull()
+    .references(() => orders.id),
+  type: text("type").notNull(),           // PLACED | AMENDED | a status the order moved to
+  status: text("status").notNull(),       // the order's status after the event
+  detail: text("detail", { mode: "json" }).$type<Record<string, unknown>>(),
+  createdAt: integer("created_at").notNull(),
+});
+
+// Last-look decisions on RFQ executions, kept for fairness review
+export const lastLookDecisions = sqliteTable("last_look_decisions", {
+  id: text("id").primaryKey(),
+  quoteId: text("quote_id")
+    .notNull()
+    .references(() => quotes.id),
+  accountId: text("account_id")
+    .notNull()
+    .references(() => accounts.id),
+  side: text("side").notNull(),
+  quotedPrice: integer("quoted_price").notNull(), // scaled, spread included
+  venuePrice: integer("venue_price").notNull(),   // scaled, at execution
+  lossBps: real("loss_bps").notNull(),    // venue move against the house, negative = in its favour
+  toleranceBps: integer("tolerance_bps").notNull(),
+  decision: text("decision").notNull(),   // ACCEPTED | REJECTED
+  requoteId: text("requote_id"),          // the fresh quote returned with a rejection
+  createdAt: integer("created_at").notNull(),
+});
+
+export const spreadSchedules = sqliteTable("spread_schedules", {
+  id: text("id").primaryKey(),
+  accountId: text("account_id").references(() => accounts.id), // null = not account specific
+  pricingGroup: text("pricing_group"),    // null with no account = everyone
+  pair: text("pair"),                     // e.g. "EUR_USDT", null = every pair
+  minNotional: integer("min_notional").notNull(), // scaled, in the pair's quote currency
+  markupBps: integer("markup_bps").notNull(),
+  createdAt: integer("created_at").notNull(),
+});
+
+export const feeSchedules = sqliteTable("fee_schedules", {
+  id: text("id").primaryKey(),
+  accountId: text("account_id").references(() => accounts.id), // null = every account
+  pair: text("pair"),                     // e.g. "EUR_USDT", null = every pair
+  bps: integer("bps").notNull(),
+  flatFee: integer("flat_fee").notNull(), // scaled, in the fee currency
+  minFee: integer("min_fee").notNull(),   // scaled, in the fee currency
+  feeCurrency: text("fee_currency").notNull(), // BASE | QUOTE
+  createdAt: integer("created_at").notNull(),
+});
+
+export const feeLedger = sqliteTable(
+  "fee_ledger",
+  {
+    id: text("id").primaryKey(),
+    tradeId: text("trade_id")
+      .notNull()
+      .references(() => trades.id),
+    accountId: text("account_id")
+      .notNull()
+      .references(() => accounts.id), // the account that paid it
+    currency: text("currency").notNull(),
+    amount: integer("amount").notNull(), // scaled, negative for a refund
+    createdAt: integer("created_at").notNull(),
+  },
+  (t) => [index("fee_ledger_created_idx").on(t.createdAt)], // daily revenue
+);
@@ -1,10 +1,21 @@
 import { db, sqlite } from "./index";
-import { accounts, balances } from "./schema";
+import { accounts, balances, spreadSchedules } from "./schema";
 import { toScaled } from "../money";
-import { CURRENCIES, type Currency } from "../types";
+import { CURRENCIES, HOUSE_FEE_ACCOUNT_ID, type Currency } from "../types";
 
 // Seed script — creates demo account with initial balances
 
+/**
+ * Add a column to a table created by an older version of this script.
+ * CREATE TABLE IF NOT EXISTS leaves existing tables untouched.
+ */
+function ensureColumn(table: string, column: string, definition: string) {
+  const columns = sqlite.query(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
 const DEMO_ACCOUNT_ID = "demo-account";
 
 const INITIAL_BALANCES: Record<Currency, number> = {
@@ -13,6 +24,11 @@ const INITIAL_BALANCES: Record<Currency, number> = {
   BTC: 0.5,
 };
 
+const VIP_SCHEDULES = [
+  { id: "vip-default", pair: null, minNotional: 0, markupBps: 5 },
+  { id: "vip-eurusdt-100k", pair: "EUR_USDT", minNotional: toScaled(100_000), markupBps: 2 },
+];
+
 async function seed() {
   const now = Date.now();
 
@@ -20,6 +36,7 @@ async function seed() {
   sqlite.exec(`CREATE TABLE IF NOT EXISTS accounts (
     id TEXT PRIMARY KEY,
     name TEXT NOT NULL,
+    pricing_group TEXT,
     created_at INTEGER NOT NULL
   )`);
 
@@ -28,6 +45,7 @@ async function seed() {
     account_id TEXT NOT NULL REFERENCES accounts(id),
     currency TEXT NOT NULL,
     amount INTEGER NOT NULL,
+    reserved INTEGER NOT NULL DEFAULT 0,
     updated_at INTEGER NOT NULL,
     UNIQUE(account_id, currency)
   )`);
@@ -43,6 +61,14 @@ async function seed() {
     price INTEGER NOT NULL,
     expires_at INTEGER NOT NULL,
     status TEXT NOT NULL,
+    legs TEXT,
+    levels TEXT,
+    venue_price INTEGER,
+    spread_bps INTEGER,
+    fills TEXT,
+    venue TEXT,
+    venue_quotes TEXT,
+    amount_currency TEXT,
     created_at INTEGER NOT NULL
   )`);
 
@@ -57,16 +83,168 @@ async function seed() {
     base_amount INTEGER NOT NULL,
     quote_amount INTEGER NOT NULL,
     price INTEGER NOT NULL,
+    legs TEXT,
+    fills TEXT,
+    venue TEXT,
+    venue_quotes TEXT,
+    order_id TEXT,
+    parent_id TEXT,
+    status TEXT NOT NULL DEFAULT 'EXECUTED',
+    replaced_by TEXT,
+    replaces TEXT,
+    reason TEXT,
+    revised_at INTEGER,
+    fee_amount INTEGER NOT NULL DEFAULT 0,
+    fee_currency TEXT,
     executed_at INTEGER NOT NULL,
     created_at INTEGER NOT NULL
   )`);
 
+  ensureColumn("quotes", "legs", "TEXT");
+  ensureColumn("trades", "legs", "TEXT");
+  sqlite.exec(`CREATE TABLE IF NOT EXISTS orders (
+    id TEXT PRIMARY KEY,
+    account_id TEXT NOT NULL REFERENCES accounts(id),
+    client_order_id TEXT,
+    parent_id TEXT,
+    type TEXT NOT NULL,
+    base_currency TEXT NOT NULL,
+    quote_currency TEXT NOT NULL,
+    side TEXT NOT NULL,
+    base_amount INTEGER NOT NULL,
+    limit_price INTEGER,
+    trigger_price INTEGER,
+    oco_id TEXT,
+    status TEXT NOT NULL,
+    reserved_currency TEXT NOT NULL,
+    reserved_amount INTEGER NOT NULL,
+    trade_id TEXT,
+    reason TEXT,
+    expires_at INTEGER,
+    version INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  )`);
+
+  sqlite.exec(`CREATE TABLE IF NOT EXISTS algo_orders (
+    id TEXT PRIMARY KEY,
+    account_id TEXT NOT NULL REFERENCES accounts(id),
+    strategy TEXT NOT NULL,
+    base_currency TEXT NOT NULL,
+    quote_currency TEXT NOT NULL,
+    side TEXT NOT NULL,
+    total_amount INTEGER NOT NULL,
+    schedule TEXT NOT NULL,
+    interval_ms INTEGER NOT NULL,
+    slices_done INTEGER NOT NULL,
+    next_slice_at INTEGER,
+    max_slippage_bps INTEGER,
+    limit_price INTEGER,
+    status TEXT NOT NULL,
+    reason TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  )`);
+
+  sqlite.exec(`CREATE TABLE IF NOT EXISTS order_events (
+    id TEXT PRIMARY KEY,
+    order_id TEXT NOT NULL REFERENCES orders(id),
+    type TEXT NOT NULL,
+    status TEXT NOT NULL,
+    detail TEXT,
+    created_at INTEGER NOT NULL
+  )`);
+
+  sqlite.exec(`CREATE TABLE IF NOT EXISTS last_look_decisions (
+    id TEXT PRIMARY KEY,
+    quote_id TEXT NOT NULL REFERENCES quotes(id),
+    account_id TEXT NOT NULL REFERENCES accounts(id),
+    side TEXT NOT NULL,
+    quoted_price INTEGER NOT NULL,
+    venue_price INTEGER NOT NULL,
+    loss_bps REAL NOT NULL,
+    tolerance_bps INTEGER NOT NULL,
+    decision TEXT NOT NULL,
+    requote_id TEXT,
+    created_at INTEGER NOT NULL
+  )`);
+
+  sqlite.exec(`CREATE TABLE IF NOT EXISTS spread_schedules (
+    id TEXT PRIMARY KEY,
+    account_id TEXT REFERENCES accounts(id),
+    pricing_group TEXT,
+    pair TEXT,
+    min_notional INTEGER NOT NULL,
+    markup_bps INTEGER NOT NULL,
+    created_at INTEGER NOT NULL
+  )`);
+
+  sqlite.exec(`CREATE TABLE IF NOT EXISTS fee_schedules (
+    id TEXT PRIMARY KEY,
+    account_id TEXT REFERENCES accounts(id),
+    pair TEXT,
+    bps INTEGER NOT NULL,
+    flat_fee INTEGER NOT NULL,
+    min_fee INTEGER NOT NULL,
+    fee_currency TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  )`);
+
+  sqlite.exec(`CREATE TABLE IF NOT EXISTS fee_ledger (
+    id TEXT PRIMARY KEY,
+    trade_id TEXT NOT NULL REFERENCES trades(id),
+    account_id TEXT NOT NULL REFERENCES accounts(id),
+    currency TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    created_at INTEGER NOT NULL
+  )`);
+
+  ensureColumn("quotes", "levels", "TEXT");
+  ensureColumn("accounts", "pricing_group", "TEXT");
+  ensureColumn("quotes", "venue_price", "INTEGER");
+  ensureColumn("quotes", "spread_bps", "INTEGER");
+  ensureColumn("quotes", "fills", "TEXT");
+  ensureColumn("trades", "fills", "TEXT");
+  ensureColumn("quotes", "venue", "TEXT");
+  ensureColumn("quotes", "venue_quotes", "TEXT");
+  ensureColumn("trades", "venue", "TEXT");
+  ensureColumn("trades", "venue_quotes", "TEXT");
+  ensureColumn("balances", "reserved", "INTEGER NOT NULL DEFAULT 0");
+  ensureColumn("trades", "order_id", "TEXT");
+  ensureColumn("orders", "trigger_price", "INTEGER");
+  ensureColumn("orders", "oco_id", "TEXT");
+  ensureColumn("orders", "reason", "TEXT");
+  ensureColumn("orders", "client_order_id", "TEXT");
+  ensureColumn("orders", "version", "INTEGER NOT NULL DEFAULT 0");
+  ensureColumn("orders", "parent_id", "TEXT");
+  ensureColumn("quotes", "amount_currency", "TEXT");
+  ensureColumn("trades", "parent_id", "TEXT");
+  ensureColumn("trades", "status", "TEXT NOT NULL DEFAULT 'EXECUTED'");
+  ensureColumn("trades", "replaced_by", "TEXT");
+  ensureColumn("trades", "replaces", "TEXT");
+  ensureColumn("trades", "reason", "TEXT");
+  ensureColumn("trades", "revised_at", "INTEGER");
+  ensureColumn("trades", "fee_amount", "INTEGER NOT NULL DEFAULT 0");
+  ensureColumn("trades", "fee_currency", "TEXT");
+  sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS orders_account_client_order_idx
+    ON orders(account_id, client_order_id)`);
+  sqlite.exec(`CREATE INDEX IF NOT EXISTS quotes_status_expires_idx
+    ON quotes(status, expires_at)`);
+  sqlite.exec(`CREATE INDEX IF NOT EXISTS fee_ledger_created_idx
+    ON fee_ledger(created_at)`);
+
   // Upsert demo account
   await db
     .insert(accounts)
     .values({ id: DEMO_ACCOUNT_ID, name: "Demo Trader", createdAt: now })
     .onConflictDoNothing();
 
+  // The account trade fees are credited to
+  await db
+    .insert(accounts)
+    .values({ id: HOUSE_FEE_ACCOUNT_ID, name: "House Fees", createdAt: now })
+    .onConflictDoNothing();
+
   // Upsert initial balances
   for (const currency of CURRENCIES) {
     await db
@@ -81,6 +259,14 @@ async function seed() {
       .onConflictDoNothing();
   }
 
+  // Tighter spreads for the "vip" pricing group, everyone else gets DEFAULT_SPREAD_BPS
+  for (const schedule of VIP_SCHEDULES) {
+    await db
+      .insert(spreadSchedules)
+      .values({ ...schedule, accountId: null, pricingGroup: "vip", createdAt: now })
+      .onConflictDoNothing();
+  }
+
   console.log("Seeded demo account with balances:");
   for (const currency of CURRENCIES) {
     console.log(`  ${currency}: ${INITIAL_BALANCES[currency].toLocaleString()}`);
@@ -0,0 +1,29 @@
+// Numeric settings from the environment
+
+export interface EnvNumberRule {
+  unit: string;        // what the number counts, for the error message
+  whole?: boolean;     // integers only
+  allowZero?: boolean; // 0 allowed, e.g. for "off"
+}
+
+/**
+ * The number in the environment variable name, or fallback when it isn't
+ * set. Called at module load, so a value that isn't a number, or breaks the
+ * rule, stops the server at startup with the variable named instead of
+ * running on NaN or a silent default. Negative values are never allowed.
+ */
+export function envNumber(name: string, fallback: number, rule: EnvNumberRule): number {
+  const raw = process.env[name];
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (
+    raw.trim() === "" ||
+    !Number.isFinite(value) ||
+    (rule.whole && !Number.isInteger(value)) ||
+    (rule.allowZero ? value < 0 : value <= 0)
+  ) {
+    const kind = `${rule.allowZero ? "non-negative" : "positive"} ${rule.whole ? "whole " : ""}number`;
+    throw new Error(`${name} must be a ${kind} of ${rule.unit}, got "${raw}"`);
+  }
+  return value;
+}
@@ -6,9 +6,16 @@ export type ErrorCode =
   | "INSUFFICIENT_BALANCE"
   | "QUOTE_EXPIRED"
   | "QUOTE_ALREADY_EXECUTED"
+  | "QUOTE_REPRICED"
   | "PAIR_NOT_SUPPORTED"
   | "RATE_LIMITED"
   | "PRICE_FETCH_FAILED"
+  | "INSUFFICIENT_LIQUIDITY"
+  | "SLIPPAGE_EXCEEDED"
+  | "LIMIT_PRICE_BREACHED"
+  | "ORDER_NOT_OPEN"
+  | "DUPLICATE_CLIENT_ORDER_ID"
+  | "TRADE_ALREADY_REVISED"
   | "INTERNAL_ERROR";
 
 export class AppError extends Error {
@@ -16,6 +23,7 @@ export class AppError extends Error {
     public readonly code: ErrorCode,
     message: string,
     public readonly statusCode: number = 400,
+    public readonly details?: Record<string, unknown>,
   ) {
     super(message);
     this.name = "AppError";
@@ -26,6 +34,7 @@ export class AppError extends Error {
       error: {
         code: this.code,
         message: this.message,
+        ...(this.details && { details: this.details }),
       },
     };
   }
@@ -44,12 +53,31 @@ export const Errors = {
     new AppError("QUOTE_EXPIRED", "Quote has expired. Request a new quote.", 400),
   quoteAlreadyExecuted: () =>
     new AppError("QUOTE_ALREADY_EXECUTED", "Quote has already been executed.", 409),
+  quoteRepriced: (lossBps: string, toleranceBps: number, requote?: unknown) =>
+    new AppError(
+      "QUOTE_REPRICED",
+      `Market moved ${lossBps} bps against the quote, over the ${toleranceBps} bps last-look tolerance`,
+      409,
+      requote !== undefined ? { requote } : undefined,
+    ),
   pairNotSupported: (pair: string) =>
     new AppError("PAIR_NOT_SUPPORTED", `Currency pair ${pair} is not supported`, 400),
   rateLimited: () =>
     new AppError("RATE_LIMITED", "Rate limit exceeded. Try again later.", 429),
   priceFetchFailed: (msg: string) =>
     new AppError("PRICE_FETCH_FAILED", msg, 502),
+  insufficientLiquidity: (pair: string) =>
+    new AppError("INSUFFICIENT_LIQUIDITY", `Not enough ${pair} depth to fill the requested amount`, 400),
+  slippageExceeded: (bps: string, maxBps: number) =>
+    new AppError("SLIPPAGE_EXCEEDED", `Fill would slip ${bps} bps from the best price, over the ${maxBps} bps limit`, 400),
+  limitPriceBreached: (price: string, limitPrice: string, side: "BUY" | "SELL") =>
+    new AppError("LIMIT_PRICE_BREACHED", `Fill price ${price} is ${side === "BUY" ? "above" : "below"} the limit price ${limitPrice}`, 400),
+  orderNotOpen: (status: string) =>
+    new AppError("ORDER_NOT_OPEN", `Order is ${status} and can no longer change`, 409),
+  duplicateClientOrderId: (clientOrderId: string) =>
+    new AppError("DUPLICATE_CLIENT_ORDER_ID", `clientOrderId ${clientOrderId} is already in use`, 409),
+  tradeAlreadyRevised: (status: string) =>
+    new AppError("TRADE_ALREADY_REVISED", `Trade is ${status} and can no longer be cancelled or corrected`, 409),
   internal: (msg = "Internal server error") =>
     new AppError("INTERNAL_ERROR", msg, 500),
 } as const;
@@ -0,0 +1,70 @@
+import type { FeeCurrency } from "./types";
+
+// Fee schedules — picking a commission rate and working out the fee
+
+export interface FeeSchedule {
+  accountId: string | null; // null = every account
+  pair: string | null;      // e.g. "EUR_USDT", null = every pair
+  bps: number;
+  flatFee: number;          // scaled, in the fee currency
+  minFee: number;           // scaled, in the fee currency
+  feeCurrency: FeeCurrency;
+}
+
+// The pair written the other way round, e.g. "USDT_EUR" for "EUR_USDT"
+export function invertPair(pair: string): string {
+  const [base, quote] = pair.split("_");
+  return `${quote}_${base}`;
+}
+
+// Higher is more specific, -1 when the schedule doesn't apply
+function specificity(schedule: FeeSchedule, accountId: string, pair: string): number {
+  if (schedule.accountId !== null && schedule.accountId !== accountId) return -1;
+  if (schedule.pair !== null && schedule.pair !== pair && schedule.pair !== invertPair(pair)) return -1;
+  return (schedule.accountId !== null ? 2 : 0) + (schedule.pair !== null ? 1 : 0);
+}
+
+/**
+ * Pick the schedule for a trade, or null if none applies. A pair schedule
+ * applies to the pair in either orientation. An account's own schedules
+ * beat the defaults, then a pair schedule beats an every-pair one; between
+ * equally specific schedules the first listed wins. A zero-fee schedule
+ * still wins, so it can override a default.
+ */
+export function selectFeeSchedule<T extends FeeSchedule>(
+  schedules: T[],
+  accountId: string,
+  pair: string,
+): T | null {
+  let best: T | null = null;
+  let bestRank = -1;
+
+  for (const schedule of schedules) {
+    const rank = specificity(schedule, accountId, pair);
+    if (rank > bestRank) {
+      best = schedule;
+      bestRank = rank;
+    }
+  }
+  return best;
+}
+
+/**
+ * Which side of a trade on pair the schedule charges in. feeCurrency is read
+ * against the schedule's own pair, so BASE on an EUR_USDT schedule is the
+ * quote currency of a USDT_EUR trade.
+ */
+export function tradeFeeCurrency(schedule: FeeSchedule, pair: string): FeeCurrency {
+  if (schedule.pair === null || schedule.pair === pair) return schedule.feeCurrency;
+  return schedule.feeCurrency === "BASE" ? "QUOTE" : "BASE";
+}
+
+/**
+ * The fee on a trade, scaled, in the schedule's fee currency: bps of that
+ * currency's leg rounded up, plus the flat fee, and at least the minimum.
+ */
+export function computeFee(schedule: FeeSchedule, baseAmount: number, quoteAmount: number): number {
+  const notional = schedule.feeCurrency === "BASE" ? baseAmount : quoteAmount;
+  const rate = (BigInt(notional) * BigInt(schedule.bps) + 9_999n) / 10_000n;
+  return Math.max(Number(rate) + schedule.flatFee, schedule.minFee);
+}
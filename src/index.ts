@@ -1,12 +1,29 @@
 import { z } from "zod";
 import { AppError, Errors } from "./errors";
-import { extractAccountId } from "./middleware/auth";
+import { extractAccountId, verifyAdmin } from "./middleware/auth";
 import { rateLimiter } from "./middleware/rate-limiter";
 import * as priceService from "./services/price.service";
 import * as balanceService from "./services/balance.service";
 import * as quoteService from "./services/quote.service";
 import * as tradeService from "./services/trade.service";
-import type { Side } from "./types";
+import * as orderService from "./services/order.service";
+import * as algoService from "./services/algo.service";
+import * as lastLookService from "./services/last-look.service";
+import * as tradeRevisionService from "./services/trade-revision.service";
+import * as feeService from "./services/fee.service";
+import * as streamService from "./services/stream.service";
+import { marketData, recordTicks } from "./services/market-data.service";
+import { venueRegistry } from "./venues";
+import type { StreamSocketData } from "./services/stream.service";
+import {
+  ALGO_MAX_SLICES,
+  MULTI_LEG_MAX_LEGS,
+  QUOTE_LIST_DEFAULT_LIMIT,
+  QUOTE_LIST_MAX_LIMIT,
+  STREAM_BACKPRESSURE_LIMIT_BYTES,
+  type Currency,
+  type Side,
+} from "./types";
 
 // type matching for bun requests
 type BunRequest = Request & { params: Record<string, string> };
@@ -18,6 +35,20 @@ const quoteSchema = z.object({
   quoteCurrency: z.enum(["USDT", "EUR", "BTC"]),
   side: z.enum(["BUY", "SELL"]),
   amount: z.number().positive(),
+  amountCurrency: z.enum(["USDT", "EUR", "BTC"]).optional(),
+});
+
+// GET /api/v1/quotes query string
+const quoteListSchema = z.object({
+  status: z.enum(["OPEN", "EXECUTED", "EXPIRED"]).optional(),
+  pair: z
+    .string()
+    .regex(/^(USDT|EUR|BTC)_(USDT|EUR|BTC)$/, "pair must look like BTC_USDT")
+    .optional(),
+  from: z.coerce.number().int().nonnegative().optional(),
+  to: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(QUOTE_LIST_MAX_LIMIT).default(QUOTE_LIST_DEFAULT_LIMIT),
+  offset: z.coerce.number().int().nonnegative().default(0),
 });
 
 const marketTradeSchema = z.object({
@@ -26,16 +57,141 @@ const marketTradeSchema = z.object({
   quoteCurrency: z.enum(["USDT", "EUR", "BTC"]),
   side: z.enum(["BUY", "SELL"]),
   amount: z.number().positive(),
+  amountCurrency: z.enum(["USDT", "EUR", "BTC"]).optional(),
+  maxSlippageBps: z.number().nonnegative().optional(),
+  limitPrice: z.number().positive().optional(),
 });
 
 const rfqTradeSchema = z.object({
   type: z.literal("RFQ"),
   quoteId: z.string().uuid(),
+  requote: z.boolean().optional(),
+});
+
+const limitTradeSchema = z.object({
+  type: z.literal("LIMIT"),
+  baseCurrency: z.enum(["USDT", "EUR", "BTC"]),
+  quoteCurrency: z.enum(["USDT", "EUR", "BTC"]),
+  side: z.enum(["BUY", "SELL"]),
+  amount: z.number().positive(),
+  limitPrice: z.number().positive(),
+  expiresAt: z.number().int().positive().optional(),
+});
+
+const conditionalTradeSchema = <T extends "STOP_LOSS" | "TAKE_PROFIT">(type: T) =>
+  z.object({
+    type: z.literal(type),
+    baseCurrency: z.enum(["USDT", "EUR", "BTC"]),
+    quoteCurrency: z.enum(["USDT", "EUR", "BTC"]),
+    side: z.enum(["BUY", "SELL"]),
+    amount: z.number().positive(),
+    triggerPrice: z.number().positive(),
+    expiresAt: z.number().int().positive().optional(),
+  });
+
+const ocoTradeSchema = z.object({
+  type: z.literal("OCO"),
+  baseCurrency: z.enum(["USDT", "EUR", "BTC"]),
+  quoteCurrency: z.enum(["USDT", "EUR", "BTC"]),
+  side: z.enum(["BUY", "SELL"]),
+  amount: z.number().positive(),
+  stopPrice: z.number().positive(),
+  takeProfitPrice: z.number().positive(),
+  expiresAt: z.number().int().positive().optional(),
+});
+
+// A conversion leg is a market trade; legs after the first may omit amount
+const multiLegTradeSchema = z.object({
+  type: z.literal("MULTI_LEG"),
+  legs: z
+    .array(marketTradeSchema.omit({ type: true }).extend({ amount: z.number().positive().optional() }))
+    .min(2)
+    .max(MULTI_LEG_MAX_LEGS),
 });
 
 const tradeSchema = z.discriminatedUnion("type", [
   marketTradeSchema,
   rfqTradeSchema,
+  limitTradeSchema,
+  conditionalTradeSchema("STOP_LOSS"),
+  conditionalTradeSchema("TAKE_PROFIT"),
+  ocoTradeSchema,
+  multiLegTradeSchema,
+]);
+
+// Admin trade revisions, each with a reason for the audit trail
+const revisionReason = z.string().min(1).max(500);
+
+const cancelTradeSchema = z.object({ reason: revisionReason });
+
+const correctTradeSchema = z
+  .object({
+    baseAmount: z.number().positive().optional(),
+    quoteAmount: z.number().positive().optional(),
+    price: z.number().positive().optional(),
+    reason: revisionReason,
+  })
+  .refine(
+    (body) => body.baseAmount !== undefined || body.quoteAmount !== undefined || body.price !== undefined,
+    "Nothing to correct",
+  );
+
+// Admin fee schedules; flat and minimum fees are in the fee currency, and a
+// schedule with none of them is a zero-fee override
+const feeScheduleSchema = z.object({
+  accountId: z.string().min(1).optional(),
+  pair: z
+    .string()
+    .regex(/^(USDT|EUR|BTC)_(USDT|EUR|BTC)$/, "pair must look like BTC_USDT")
+    .optional(),
+  bps: z.number().int().nonnegative().max(10_000).optional(),
+  flatFee: z.number().nonnegative().optional(),
+  minFee: z.number().nonnegative().optional(),
+  feeCurrency: z.enum(["BASE", "QUOTE"]),
+});
+
+// GET /api/v1/admin/fees/revenue query string, epoch ms
+const feeRevenueSchema = z.object({
+  from: z.coerce.number().int().nonnegative().optional(),
+  to: z.coerce.number().int().positive().optional(),
+});
+
+// Orders placed directly, each with an optional client order ID
+const clientOrderId = z.string().min(1).max(64).optional();
+
+const orderSchema = z.discriminatedUnion("type", [
+  marketTradeSchema.extend({ clientOrderId }),
+  limitTradeSchema.extend({ clientOrderId }),
+  conditionalTradeSchema("STOP_LOSS").extend({ clientOrderId }),
+  conditionalTradeSchema("TAKE_PROFIT").extend({ clientOrderId }),
+]);
+
+const amendOrderSchema = z
+  .object({
+    amount: z.number().positive().optional(),
+    limitPrice: z.number().positive().optional(),
+    triggerPrice: z.number().positive().optional(),
+    expiresAt: z.number().int().positive().nullable().optional(),
+  })
+  .refine((body) => Object.keys(body).length > 0, "Nothing to amend");
+
+const algoOrderSchema = z.object({
+  strategy: z.enum(["TWAP", "VWAP"]),
+  baseCurrency: z.enum(["USDT", "EUR", "BTC"]),
+  quoteCurrency: z.enum(["USDT", "EUR", "BTC"]),
+  side: z.enum(["BUY", "SELL"]),
+  amount: z.number().positive(),
+  durationMs: z.number().int().positive(),
+  slices: z.number().int().min(1).max(ALGO_MAX_SLICES),
+  volumeProfile: z.array(z.number().nonnegative()).optional(),
+  maxSlippageBps: z.number().nonnegative().optional(),
+  limitPrice: z.number().positive().optional(),
+});
+
+const streamMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("subscribe"), pairs: z.array(z.string()).min(1) }),
+  z.object({ type: z.literal("unsubscribe"), pairs: z.array(z.string()).min(1) }),
+  z.object({ type: z.literal("ping") }),
 ]);
 
 // In-memory cache for idempotency of trade requests
@@ -46,31 +202,26 @@ function errorResponse(error: AppError): Response {
   return Response.json(error.toJSON(), { status: error.statusCode });
 }
 
-function handleError(err: unknown): Response {
+function toAppError(err: unknown): AppError {
   // Zod validation errors
   if (err instanceof z.ZodError) {
-    return Response.json(
-      {
-        error: {
-          code: "VALIDATION_ERROR",
-          message: err.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; "),
-        },
-      },
-      { status: 400 },
+    return Errors.validation(
+      err.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; "),
     );
   }
 
   // App errors
   if (err instanceof AppError) {
-    return errorResponse(err);
+    return err;
   }
 
   // Unexpected errors
   console.error("Unhandled error:", err);
-  return Response.json(
-    { error: { code: "INTERNAL_ERROR", message: "Internal server error" } },
-    { status: 500 },
-  );
+  return Errors.internal();
+}
+
+function handleError(err: unknown): Response {
+  return errorResponse(toAppError(err));
 }
 
 /**
@@ -91,6 +242,22 @@ function authed(
   };
 }
 
+/**
+ * Wrapper for ops route handlers, gated on the X-Admin-Key header.
+ */
+function admin(
+  handler: (req: Request) => Promise<Response>,
+): (req: Request) => Promise<Response> {
+  return async (req: Request) => {
+    try {
+      verifyAdmin(req);
+      return await handler(req);
+    } catch (err) {
+      return handleError(err);
+    }
+  };
+}
+
 /**
  * Wrapper for public route handlers (no auth, no rate limit).
  */
@@ -112,9 +279,39 @@ const PORT = parseInt(process.env.PORT || "3000", 10);
 const server = Bun.serve({
   port: PORT,
 
+  // Price stream websocket (public, no auth required)
+  websocket: {
+    data: {} as StreamSocketData,
+    idleTimeout: 60,
+    backpressureLimit: STREAM_BACKPRESSURE_LIMIT_BYTES,
+    closeOnBackpressureLimit: true,
+    open: streamService.openStream,
+    close: streamService.closeStream,
+    drain: streamService.drainStream,
+    async message(ws, raw) {
+      try {
+        let body: unknown;
+        try {
+          body = JSON.parse(String(raw));
+        } catch {
+          throw Errors.validation("Message must be valid JSON");
+        }
+        await streamService.handleMessage(ws, streamMessageSchema.parse(body));
+      } catch (err) {
+        streamService.sendError(ws, toAppError(err));
+      }
+    },
+  },
+
   routes: {
     // Health check
-    "/health": () => Response.json({ status: "ok", timestamp: Date.now() }),
+    "/health": () =>
+      Response.json({
+        status: "ok",
+        timestamp: Date.now(),
+        marketData: marketData.status(),
+        priceCache: priceService.getPriceCacheStats(),
+      }),
 
     // Prices (public, no auth required)
     "/api/v1/prices": {
@@ -126,11 +323,16 @@ const server = Bun.serve({
 
     "/api/v1/prices/:pair": {
       GET: pub(async (req) => {
-        const price = await priceService.getPrice((req as BunRequest).params.pair);
+        const price = await priceService.getPrice((req as BunRequest).params.pair, true);
         return Response.json({ data: price });
       }),
     },
 
+    "/api/v1/stream/prices": (req, server) => {
+      if (server.upgrade(req, { data: streamService.createSocketData() })) return;
+      return errorResponse(Errors.validation("Expected a websocket upgrade request"));
+    },
+
     // Balances (auth required)
     "/api/v1/balances": {
       GET: authed(async (_req, accountId) => {
@@ -141,6 +343,19 @@ const server = Bun.serve({
 
     // Quotes / RFQ (auth required)
     "/api/v1/quotes": {
+      GET: authed(async (req, accountId) => {
+        const { pair, ...query } = quoteListSchema.parse(
+          Object.fromEntries(new URL(req.url).searchParams),
+        );
+        const [baseCurrency, quoteCurrency] = pair?.split("_") ?? [];
+
+        const { quotes, pagination } = await quoteService.listQuotes(accountId, {
+          ...query,
+          baseCurrency: baseCurrency as Currency | undefined,
+          quoteCurrency: quoteCurrency as Currency | undefined,
+        });
+        return Response.json({ data: quotes, pagination });
+      }),
       POST: authed(async (req, accountId) => {
         const body = await req.json();
         const parsed = quoteSchema.parse(body);
@@ -155,6 +370,7 @@ const server = Bun.serve({
           parsed.quoteCurrency,
           parsed.side as Side,
           parsed.amount,
+          parsed.amountCurrency,
         );
         return Response.json({ data: quote }, { status: 201 });
       }),
@@ -169,8 +385,10 @@ const server = Bun.serve({
 
     // Trades (auth required)
     "/api/v1/trades": {
-      GET: authed(async (_req, accountId) => {
-        const history = await tradeService.getTradeHistory(accountId);
+      GET: authed(async (req, accountId) => {
+        const history = await tradeService.getTradeHistory(accountId, {
+          parentId: new URL(req.url).searchParams.get("parentId") ?? undefined,
+        });
         return Response.json({ data: history });
       }),
       POST: authed(async (req, accountId) => {
@@ -190,17 +408,63 @@ const server = Bun.serve({
           const parsed = tradeSchema.parse(body);
 
           if (parsed.type === "RFQ") {
-            return await tradeService.executeRfqTrade(accountId, parsed.quoteId);
-          } else {
-            if (parsed.baseCurrency === parsed.quoteCurrency) {
+            return await tradeService.executeRfqTrade(accountId, parsed.quoteId, parsed.requote);
+          }
+
+          if (parsed.type === "MULTI_LEG") {
+            if (parsed.legs.some((leg) => leg.baseCurrency === leg.quoteCurrency)) {
               throw Errors.validation("baseCurrency and quoteCurrency must be different");
             }
+            return await tradeService.executeMultiLegTrade(accountId, parsed.legs);
+          }
+
+          if (parsed.baseCurrency === parsed.quoteCurrency) {
+            throw Errors.validation("baseCurrency and quoteCurrency must be different");
+          }
+          if (parsed.type === "LIMIT") {
+            // Rests as an order; the response is the order, not a trade
+            return await orderService.placeLimitOrder(
+              accountId,
+              parsed.baseCurrency,
+              parsed.quoteCurrency,
+              parsed.side as Side,
+              parsed.amount,
+              parsed.limitPrice,
+              parsed.expiresAt,
+            );
+          } else if (parsed.type === "STOP_LOSS" || parsed.type === "TAKE_PROFIT") {
+            return await orderService.placeConditionalOrder(
+              accountId,
+              parsed.type,
+              parsed.baseCurrency,
+              parsed.quoteCurrency,
+              parsed.side as Side,
+              parsed.amount,
+              parsed.triggerPrice,
+              parsed.expiresAt,
+            );
+          } else if (parsed.type === "OCO") {
+            // Both linked orders, stop first
+            return await orderService.placeOcoOrder(
+              accountId,
+              parsed.baseCurrency,
+              parsed.quoteCurrency,
+              parsed.side as Side,
+              parsed.amount,
+              parsed.stopPrice,
+              parsed.takeProfitPrice,
+              parsed.expiresAt,
+            );
+          } else {
             return await tradeService.executeMarketTrade(
               accountId,
               parsed.baseCurrency as string,
               parsed.quoteCurrency as string,
               parsed.side as Side,
               parsed.amount,
+              { maxSlippageBps: parsed.maxSlippageBps, limitPrice: parsed.limitPrice },
+              null,
+              parsed.amountCurrency,
             );
           }
         })();
@@ -223,6 +487,149 @@ const server = Bun.serve({
         return Response.json({ data: trade });
       }),
     },
+
+    // Orders (auth required). Resting orders can also be placed as trades.
+    "/api/v1/orders": {
+      GET: authed(async (req, accountId) => {
+        const params = new URL(req.url).searchParams;
+        const orders = await orderService.getOrders(accountId, {
+          clientOrderId: params.get("clientOrderId") ?? undefined,
+          parentId: params.get("parentId") ?? undefined,
+        });
+        return Response.json({ data: orders });
+      }),
+      POST: authed(async (req, accountId) => {
+        const body = await req.json();
+        const parsed = orderSchema.parse(body);
+
+        if (parsed.baseCurrency === parsed.quoteCurrency) {
+          throw Errors.validation("baseCurrency and quoteCurrency must be different");
+        }
+
+        const order = await orderService.placeOrder(accountId, parsed);
+        return Response.json({ data: order }, { status: 201 });
+      }),
+    },
+
+    "/api/v1/orders/:id": {
+      GET: authed(async (req, accountId) => {
+        const order = await orderService.getOrder(accountId, (req as BunRequest).params.id);
+        return Response.json({ data: order });
+      }),
+      PATCH: authed(async (req, accountId) => {
+        const body = await req.json();
+        const parsed = amendOrderSchema.parse(body);
+
+        const order = await orderService.amendOrder(accountId, (req as BunRequest).params.id, parsed);
+        return Response.json({ data: order });
+      }),
+      DELETE: authed(async (req, accountId) => {
+        const order = await orderService.cancelOrder(accountId, (req as BunRequest).params.id);
+        return Response.json({ data: order });
+      }),
+    },
+
+    "/api/v1/orders/:id/events": {
+      GET: authed(async (req, accountId) => {
+        const events = await orderService.getOrderEvents(accountId, (req as BunRequest).params.id);
+        return Response.json({ data: events });
+      }),
+    },
+
+    // Algo parent orders (auth required)
+    "/api/v1/algo-orders": {
+      GET: authed(async (_req, accountId) => {
+        const algoOrders = await algoService.getAlgoOrders(accountId);
+        return Response.json({ data: algoOrders });
+      }),
+      POST: authed(async (req, accountId) => {
+        const body = await req.json();
+        const parsed = algoOrderSchema.parse(body);
+
+        if (parsed.baseCurrency === parsed.quoteCurrency) {
+          throw Errors.validation("baseCurrency and quoteCurrency must be different");
+        }
+
+        const algoOrder = await algoService.createAlgoOrder(accountId, parsed);
+        return Response.json({ data: algoOrder }, { status: 201 });
+      }),
+    },
+
+    "/api/v1/algo-orders/:id": {
+      GET: authed(async (req, accountId) => {
+        const algoOrder = await algoService.getAlgoOrder(accountId, (req as BunRequest).params.id);
+        return Response.json({ data: algoOrder });
+      }),
+      DELETE: authed(async (req, accountId) => {
+        const algoOrder = await algoService.cancelAlgoOrder(accountId, (req as BunRequest).params.id);
+        return Response.json({ data: algoOrder });
+      }),
+    },
+
+    "/api/v1/algo-orders/:id/pause": {
+      POST: authed(async (req, accountId) => {
+        const algoOrder = await algoService.pauseAlgoOrder(accountId, (req as BunRequest).params.id);
+        return Response.json({ data: algoOrder });
+      }),
+    },
+
+    "/api/v1/algo-orders/:id/resume": {
+      POST: authed(async (req, accountId) => {
+        const algoOrder = await algoService.resumeAlgoOrder(accountId, (req as BunRequest).params.id);
+        return Response.json({ data: algoOrder });
+      }),
+    },
+
+    // Admin (X-Admin-Key required)
+    "/api/v1/admin/venues": {
+      GET: admin(async () => Response.json({ data: venueRegistry.status() })),
+    },
+
+    "/api/v1/admin/trades/:id/cancel": {
+      POST: admin(async (req) => {
+        const { reason } = cancelTradeSchema.parse(await req.json());
+        const trade = await tradeRevisionService.cancelTrade((req as BunRequest).params.id, reason);
+        return Response.json({ data: trade });
+      }),
+    },
+
+    "/api/v1/admin/trades/:id/correct": {
+      POST: admin(async (req) => {
+        const correction = correctTradeSchema.parse(await req.json());
+        const trade = await tradeRevisionService.correctTrade((req as BunRequest).params.id, correction);
+        return Response.json({ data: trade }, { status: 201 });
+      }),
+    },
+
+    "/api/v1/admin/fee-schedules": {
+      GET: admin(async () => Response.json({ data: await feeService.listFeeSchedules() })),
+      POST: admin(async (req) => {
+        const schedule = await feeService.createFeeSchedule(feeScheduleSchema.parse(await req.json()));
+        return Response.json({ data: schedule }, { status: 201 });
+      }),
+    },
+
+    "/api/v1/admin/fees/revenue": {
+      GET: admin(async (req) => {
+        const filter = feeRevenueSchema.parse(Object.fromEntries(new URL(req.url).searchParams));
+        return Response.json({ data: await feeService.getFeeRevenue(filter) });
+      }),
+    },
+
+    "/api/v1/admin/last-look": {
+      GET: admin(async (req) => {
+        const params = new URL(req.url).searchParams;
+        const decision = params.get("decision");
+        if (decision !== null && decision !== "ACCEPTED" && decision !== "REJECTED") {
+          throw Errors.validation("decision must be ACCEPTED or REJECTED");
+        }
+        const decisions = await lastLookService.listDecisions({
+          accountId: params.get("accountId") ?? undefined,
+          decision: decision ?? undefined,
+        });
+        return Response.json({ data: decisions });
+      }),
+    },
   },
 
   // Fallback for unmatched routes
@@ -244,4 +651,10 @@ const server = Bun.serve({
   },
 });
 
+if (process.env.PRICE_RECORD) recordTicks(marketData, process.env.PRICE_RECORD);
+marketData.start();
+orderService.startOrderMatcher();
+quoteService.startQuoteSweeper();
+algoService.startAlgoRunner();
+
 console.log(`MiniOpenFX running on http://localhost:${server.port}`);
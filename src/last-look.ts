@@ -0,0 +1,27 @@
+import type { Side } from "./types";
+
+// Last look — re-checking a locked RFQ price against the market at execution
+
+/**
+ * How far the venue price has moved against the house since the quote, in
+ * bps of the quoted price. Filling a client BUY means buying from the venue,
+ * so a venue price above the quote is a loss; a client SELL loses when the
+ * venue is below it. Negative means the house is still in the money, by up
+ * to the spread. Prices are scaled.
+ */
+export function houseLossBps(side: Side, quotedPrice: number, venuePrice: number): number {
+  const loss = side === "BUY" ? venuePrice - quotedPrice : quotedPrice - venuePrice;
+  return (loss * 10_000) / quotedPrice;
+}
+
+/**
+ * Whether a quote may still fill: the house loss is within toleranceBps.
+ */
+export function passesLastLook(
+  side: Side,
+  quotedPrice: number,
+  venuePrice: number,
+  toleranceBps: number,
+): boolean {
+  return houseLossBps(side, quotedPrice, venuePrice) <= toleranceBps;
+}
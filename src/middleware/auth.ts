@@ -1,6 +1,7 @@
+import { timingSafeEqual } from "crypto";
 import { Errors } from "../errors";
 
-// Auth middleware, extracts X-Account-Id from request headers
+// Auth middleware, extracts X-Account-Id from request headers and checks the admin key
 
 /**
  * Extracts and validates the account ID from the request.
@@ -13,3 +14,24 @@ export function extractAccountId(req: Request): string {
   }
   return accountId.trim();
 }
+
+/**
+ * Checks the X-Admin-Key header against the ADMIN_API_KEY env var.
+ * Admin routes are closed entirely while ADMIN_API_KEY is unset.
+ */
+export function verifyAdmin(req: Request): void {
+  const expected = process.env.ADMIN_API_KEY;
+  const provided = req.headers.get("X-Admin-Key");
+  // timingSafeEqual throws on buffers of different byte lengths, which
+  // a multibyte key can have even when the strings are the same length
+  const providedBytes = Buffer.from(provided ?? "");
+  const expectedBytes = Buffer.from(expected ?? "");
+  if (
+    !expected ||
+    !provided ||
+    providedBytes.length !== expectedBytes.length ||
+    !timingSafeEqual(providedBytes, expectedBytes)
+  ) {
+    throw Errors.unauthorized("Missing or invalid X-Admin-Key header");
+  }
+}
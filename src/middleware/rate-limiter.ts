@@ -1,4 +1,5 @@
 import { Errors } from "../errors";
+import { envNumber } from "../env";
 import { RATE_LIMIT_MAX, RATE_LIMIT_WINDOW_MS } from "../types";
 
 // Sliding window rate limiter per-account, using plain array. You could use the double ended queue data structure to optimize the time complexity of the check method.
@@ -48,4 +49,8 @@ export class RateLimiter {
   }
 }
 
-export const rateLimiter = new RateLimiter();
+// RATE_LIMIT_MAX raises the limit, e.g. for the replay server CI runs the
+// API tests against
+export const rateLimiter = new RateLimiter(
+  envNumber("RATE_LIMIT_MAX", RATE_LIMIT_MAX, { unit: "requests", whole: true }),
+);
@@ -27,7 +27,7 @@ export function scaledMultiply(a: number, b: number): number {
   return Number(result);
 }
 
-// Divide two scaled values: (a * SCALE) / b
+// Divide two scaled values: (a * SCALE) / b, rounded down for positive values
 // Used for: price = quoteAmount * SCALE / baseAmount
 export function scaledDivide(a: number, b: number): number {
   if (b === 0) throw new Error("Division by zero");
@@ -35,6 +35,15 @@ export function scaledDivide(a: number, b: number): number {
   return Number(result);
 }
 
+// Divide two positive scaled values rounding up: ceil((a * SCALE) / b)
+// Used for: the base amount a SELL must give to receive an exact quote amount
+export function scaledDivideUp(a: number, b: number): number {
+  if (b === 0) throw new Error("Division by zero");
+  const numerator = BigInt(a) * BigInt(SCALE);
+  const divisor = BigInt(b);
+  return Number((numerator + divisor - 1n) / divisor);
+}
+
 // Parse a string price from Binance into a scaled integer.
 // e.g. parsePrice("1.17920000") → 117_920_000
 export function parsePrice(priceStr: string): number {
@@ -0,0 +1,62 @@
+import { scaledDivide, scaledMultiply } from "./money";
+
+// Order book depth — walking price levels to size an execution
+
+// One price level, scaled
+export interface DepthLevel {
+  price: number;
+  qty: number; // base currency
+}
+
+export interface OrderBookDepth {
+  bids: DepthLevel[]; // best (highest) first
+  asks: DepthLevel[]; // best (lowest) first
+}
+
+export interface BookWalk<L extends DepthLevel = DepthLevel> {
+  amountOut: number;    // quote notional when sized by base, base qty when sized by quote
+  averagePrice: number; // volume-weighted, quote per base
+  levels: L[];          // consumed, the last one possibly partially
+}
+
+/**
+ * Consume levels best first until `amount` is filled.
+ * by "base": amount is a base quantity, e.g. BUY 2 BTC on BTCUSDT.
+ * by "quote": amount is quote notional, e.g. spend 1000 USDT on BTCUSDT.
+ * Returns null if the levels run out before the amount is filled.
+ */
+export function walkBook<L extends DepthLevel>(
+  levels: L[],
+  amount: number,
+  by: "base" | "quote",
+): BookWalk<L> | null {
+  const consumed: L[] = [];
+  let remaining = amount;
+  let filledQty = 0;
+  let filledNotional = 0;
+
+  for (const level of levels) {
+    if (remaining <= 0) break;
+
+    const levelNotional = scaledMultiply(level.qty, level.price);
+    const available = by === "base" ? level.qty : levelNotional;
+    const take = Math.min(available, remaining);
+
+    const qty = by === "base" ? take : take === levelNotional ? level.qty : scaledDivide(take, level.price);
+    // Priced from the rounded qty, so a fill within one level averages exactly its price
+    const notional = qty === level.qty ? levelNotional : scaledMultiply(qty, level.price);
+
+    consumed.push({ ...level, qty });
+    filledQty += qty;
+    filledNotional += notional;
+    remaining -= take;
+  }
+
+  if (remaining > 0) return null;
+
+  return {
+    amountOut: by === "base" ? filledNotional : filledQty,
+    averagePrice: filledQty > 0 ? scaledDivide(filledNotional, filledQty) : levels[0]?.price ?? 0,
+    levels: consumed,
+  };
+}
@@ -0,0 +1,91 @@
+import { PRICE_CACHE_TTL_MS } from "./types";
+
+// Price cache — in-memory TTL cache with single-flight fetches
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface PriceCacheStats {
+  hits: number;
+  misses: number;
+  coalesced: number;  // callers that joined a fetch already in flight
+  refreshes: number;  // background refreshes started ahead of expiry
+  size: number;
+}
+
+/**
+ * TTL cache whose getOrFetch runs at most one fetch per key at a time:
+ * concurrent misses share the in-flight promise instead of each calling
+ * upstream. With refreshAheadMs set, a hit within that long of expiry
+ * starts a background refresh so hot keys never go cold.
+ */
+export class PriceCache<K, V> {
+  private store = new Map<K, CacheEntry<V>>();
+  private inFlight = new Map<K, Promise<V>>();
+  private counters = { hits: 0, misses: 0, coalesced: 0, refreshes: 0 };
+
+  constructor(
+    private defaultTTL: number = PRICE_CACHE_TTL_MS,
+    private refreshAheadMs: number = 0,
+  ) {}
+
+  get(key: K): V | null {
+    const entry = this.store.get(key);
+    if (!entry) return null;
+    if (Date.now() > entry.expiresAt) {
+      this.store.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  set(key: K, value: V, ttl: number = this.defaultTTL): void {
+    this.store.set(key, { value, expiresAt: Date.now() + ttl });
+  }
+
+  /**
+   * Cached value for key, or the result of fetch. A failed fetch is not
+   * cached and rejects every caller that joined it.
+   */
+  async getOrFetch(key: K, fetch: () => Promise<V>): Promise<V> {
+    const cached = this.get(key);
+    if (cached !== null) {
+      this.counters.hits++;
+      const expiresAt = this.store.get(key)!.expiresAt;
+      const refreshDue = this.refreshAheadMs > 0 && expiresAt - Date.now() <= this.refreshAheadMs;
+      if (refreshDue && !this.inFlight.has(key)) {
+        this.counters.refreshes++;
+        this.load(key, fetch).catch((err) =>
+          console.warn(`Refresh ahead failed for ${String(key)}:`, err),
+        );
+      }
+      return cached;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.counters.coalesced++;
+      return pending;
+    }
+
+    this.counters.misses++;
+    return this.load(key, fetch);
+  }
+
+  stats(): PriceCacheStats {
+    return { ...this.counters, size: this.store.size };
+  }
+
+  private load(key: K, fetch: () => Promise<V>): Promise<V> {
+    const promise = fetch()
+      .then((value) => {
+        this.set(key, value);
+        return value;
+      })
+      .finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+}
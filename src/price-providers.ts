@@ -0,0 +1,59 @@
+import { Errors } from "./errors";
+import type { BinanceBookTicker } from "./types";
+
+// Price providers — an ordered failover chain for top of book, with the
+// last good book kept for bounded-stale display
+
+// A source of top of book
+export interface PriceProvider {
+  name: string;
+  fetchBookTicker(symbol: string): Promise<BinanceBookTicker>;
+}
+
+// A book and the provider that served it. stale marks the last good book,
+// served for display after every provider failed.
+export interface ProvidedBook {
+  book: BinanceBookTicker;
+  provider: string;
+  stale: boolean;
+}
+
+/**
+ * Asks each provider in turn and returns the first book served. The last
+ * good book per symbol is remembered; with allowStale, callers get it back,
+ * flagged stale, when every provider fails and it is at most
+ * maxStalenessMs old. Quoting and trading never pass allowStale.
+ */
+export class PriceProviderChain {
+  private lastGood = new Map<string, ProvidedBook & { fetchedAt: number }>();
+
+  constructor(
+    readonly providers: PriceProvider[],
+    private maxStalenessMs: number = 0,
+    private now: () => number = Date.now,
+  ) {}
+
+  async getBookTicker(symbol: string, allowStale = false): Promise<ProvidedBook> {
+    const failures: string[] = [];
+
+    for (const provider of this.providers) {
+      try {
+        const book = await provider.fetchBookTicker(symbol);
+        const provided = { book, provider: provider.name, stale: false };
+        this.lastGood.set(symbol, { ...provided, fetchedAt: this.now() });
+        return provided;
+      } catch (err) {
+        failures.push(`${provider.name}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+
+    const last = this.lastGood.get(symbol);
+    if (allowStale && last && this.now() - last.fetchedAt <= this.maxStalenessMs) {
+      return { book: last.book, provider: last.provider, stale: true };
+    }
+
+    throw Errors.priceFetchFailed(
+      `No price provider could serve ${symbol} (${failures.join("; ")})`,
+    );
+  }
+}
@@ -0,0 +1,302 @@
+import { eq, and, desc, inArray, lte, sum } from "drizzle-orm";
+import { db } from "../db";
+import { algoOrders, orders, trades } from "../db/schema";
+import * as orderService from "./order.service";
+import { validatePair } from "./price.service";
+import { profileWeights, sliceAmount, twapSchedule, vwapSchedule } from "../algo-schedule";
+import { toScaled, fromScaled, scaledDivide } from "../money";
+import { Errors } from "../errors";
+import {
+  ALGO_MIN_INTERVAL_MS,
+  ALGO_TICK_MS,
+  type AlgoOrderRequest,
+  type AlgoOrderResponse,
+  type AlgoStatus,
+  type AlgoStrategy,
+  type Side,
+} from "../types";
+
+// Algo Service — TWAP and VWAP parent orders, executed as timed MARKET
+// child orders through the order service
+
+type AlgoRow = typeof algoOrders.$inferSelect;
+
+interface Filled {
+  base: number;  // scaled
+  quote: number; // scaled
+}
+
+function toAlgoResponse(row: AlgoRow, filled: Filled): AlgoOrderResponse {
+  return {
+    id: row.id,
+    strategy: row.strategy as AlgoStrategy,
+    baseCurrency: row.baseCurrency as any,
+    quoteCurrency: row.quoteCurrency as any,
+    side: row.side as Side,
+    totalAmount: fromScaled(row.totalAmount),
+    filledAmount: fromScaled(filled.base),
+    remainingAmount: fromScaled(row.totalAmount - filled.base),
+    averagePrice: filled.base > 0 ? fromScaled(scaledDivide(filled.quote, filled.base)) : null,
+    schedule: row.schedule.map(fromScaled),
+    intervalMs: row.intervalMs,
+    slicesDone: row.slicesDone,
+    nextSliceAt: row.nextSliceAt,
+    ...(row.maxSlippageBps !== null && { maxSlippageBps: row.maxSlippageBps }),
+    ...(row.limitPrice !== null && { limitPrice: fromScaled(row.limitPrice) }),
+    status: row.status as AlgoStatus,
+    ...(row.reason && { reason: row.reason }),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+// What the parent's child orders have traded so far. Only EXECUTED trades
+// count: a corrected slice's replacement stands in for it and a cancelled
+// slice traded nothing.
+async function filledOf(algoId: string): Promise<Filled> {
+  const [row] = await db
+    .select({ base: sum(trades.baseAmount), quote: sum(trades.quoteAmount) })
+    .from(trades)
+    .innerJoin(orders, eq(trades.orderId, orders.id))
+    .where(and(eq(orders.parentId, algoId), eq(trades.status, "EXECUTED")));
+
+  return { base: Number(row?.base ?? 0), quote: Number(row?.quote ?? 0) };
+}
+
+/**
+ * Start an algo parent order. The first slice trades straight away and the
+ * rest follow every durationMs / slices. VWAP slices are weighted by
+ * volumeProfile, or by VWAP_HOURLY_PROFILE at each slice's hour. Nothing is
+ * reserved; each slice is checked for balance when it trades.
+ */
+export async function createAlgoOrder(
+  accountId: string,
+  request: AlgoOrderRequest,
+): Promise<AlgoOrderResponse> {
+  const { strategy, baseCurrency, quoteCurrency, side, amount, durationMs, slices, volumeProfile } = request;
+  validatePair(baseCurrency, quoteCurrency);
+
+  const intervalMs = Math.floor(durationMs / slices);
+  if (slices > 1 && intervalMs < ALGO_MIN_INTERVAL_MS) {
+    throw Errors.validation(`Slices must be at least ${ALGO_MIN_INTERVAL_MS}ms apart`);
+  }
+  if (volumeProfile !== undefined) {
+    if (strategy !== "VWAP") throw Errors.validation("volumeProfile only applies to VWAP");
+    if (volumeProfile.length !== slices) {
+      throw Errors.validation("volumeProfile needs one weight per slice");
+    }
+    if (!volumeProfile.some((w) => w > 0)) {
+      throw Errors.validation("volumeProfile needs a positive weight");
+    }
+  }
+
+  const now = Date.now();
+  const totalAmount = toScaled(amount);
+  const schedule = strategy === "TWAP"
+    ? twapSchedule(totalAmount, slices)
+    : vwapSchedule(totalAmount, volumeProfile ?? profileWeights(now, intervalMs, slices));
+
+  const row: AlgoRow = {
+    id: crypto.randomUUID(),
+    accountId,
+    strategy,
+    baseCurrency,
+    quoteCurrency,
+    side,
+    totalAmount,
+    schedule,
+    intervalMs,
+    slicesDone: 0,
+    nextSliceAt: now,
+    maxSlippageBps: request.maxSlippageBps ?? null,
+    limitPrice: request.limitPrice !== undefined ? toScaled(request.limitPrice) : null,
+    status: "RUNNING",
+    reason: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  db.insert(algoOrders).values(row).run();
+
+  requestRun();
+  return toAlgoResponse(row, { base: 0, quote: 0 });
+}
+
+async function findAlgoOrder(accountId: string, algoId: string): Promise<AlgoRow> {
+  const [row] = await db.select().from(algoOrders).where(eq(algoOrders.id, algoId));
+  if (!row || row.accountId !== accountId) throw Errors.notFound("Algo order");
+  return row;
+}
+
+/**
+ * Get algo orders for an account with their progress, newest first.
+ */
+export async function getAlgoOrders(accountId: string): Promise<AlgoOrderResponse[]> {
+  const rows = await db
+    .select()
+    .from(algoOrders)
+    .where(eq(algoOrders.accountId, accountId))
+    .orderBy(desc(algoOrders.createdAt));
+
+  return Promise.all(rows.map(async (row) => toAlgoResponse(row, await filledOf(row.id))));
+}
+
+/**
+ * Get a single algo order with its progress. Other accounts' are NOT_FOUND.
+ */
+export async function getAlgoOrder(accountId: string, algoId: string): Promise<AlgoOrderResponse> {
+  const row = await findAlgoOrder(accountId, algoId);
+  return toAlgoResponse(row, await filledOf(row.id));
+}
+
+/**
+ * Stop sending slices until resumed. Pausing a paused order is a no-op;
+ * a finished one throws ORDER_NOT_OPEN.
+ */
+export async function pauseAlgoOrder(accountId: string, algoId: string): Promise<AlgoOrderResponse> {
+  const row = await findAlgoOrder(accountId, algoId);
+  if (row.status === "RUNNING") {
+    db.update(algoOrders)
+      .set({ status: "PAUSED", updatedAt: Date.now() })
+      .where(and(eq(algoOrders.id, algoId), eq(algoOrders.status, "RUNNING")))
+      .run();
+  } else if (row.status !== "PAUSED") {
+    throw Errors.orderNotOpen(row.status);
+  }
+  return getAlgoOrder(accountId, algoId);
+}
+
+/**
+ * Resume a paused order. The next slice is due straight away and the rest
+ * keep their interval, so the schedule shifts by the time spent paused.
+ */
+export async function resumeAlgoOrder(accountId: string, algoId: string): Promise<AlgoOrderResponse> {
+  const row = await findAlgoOrder(accountId, algoId);
+  if (row.status === "PAUSED") {
+    const now = Date.now();
+    db.update(algoOrders)
+      .set({
+        status: "RUNNING",
+        nextSliceAt: row.slicesDone < row.schedule.length ? now : null,
+        updatedAt: now,
+      })
+      .where(and(eq(algoOrders.id, algoId), eq(algoOrders.status, "PAUSED")))
+      .run();
+    requestRun();
+  } else if (row.status !== "RUNNING") {
+    throw Errors.orderNotOpen(row.status);
+  }
+  return getAlgoOrder(accountId, algoId);
+}
+
+/**
+ * Cancel a running or paused order. Slices already sent still complete.
+ */
+export async function cancelAlgoOrder(accountId: string, algoId: string): Promise<AlgoOrderResponse> {
+  await findAlgoOrder(accountId, algoId);
+  const result = db.update(algoOrders)
+    .set({ status: "CANCELLED", nextSliceAt: null, updatedAt: Date.now() })
+    .where(and(eq(algoOrders.id, algoId), inArray(algoOrders.status, ["RUNNING", "PAUSED"])))
+    .run() as any;
+
+  if (result.changes === 0) {
+    const current = await findAlgoOrder(accountId, algoId);
+    throw Errors.orderNotOpen(current.status);
+  }
+  return getAlgoOrder(accountId, algoId);
+}
+
+// Send the parent's next slice. The slice is claimed with a guarded update
+// first, so a pause, cancel or overlapping pass can't send it twice.
+async function runSlice(algo: AlgoRow): Promise<void> {
+  const index = algo.slicesDone;
+  const last = index === algo.schedule.length - 1;
+  const now = Date.now();
+
+  const claimed = db.update(algoOrders)
+    .set({ slicesDone: index + 1, nextSliceAt: last ? null : now + algo.intervalMs, updatedAt: now })
+    .where(
+      and(eq(algoOrders.id, algo.id), eq(algoOrders.status, "RUNNING"), eq(algoOrders.slicesDone, index)),
+    )
+    .run() as any;
+  if (claimed.changes === 0) return;
+
+  let reason: string | undefined;
+  const amount = sliceAmount(algo.schedule, index, (await filledOf(algo.id)).base);
+  if (amount > 0) {
+    const child = await orderService.placeMarketOrder(
+      algo.accountId,
+      algo.baseCurrency,
+      algo.quoteCurrency,
+      algo.side as Side,
+      Number(fromScaled(amount)),
+      {
+        maxSlippageBps: algo.maxSlippageBps ?? undefined,
+        limitPrice: algo.limitPrice !== null ? Number(fromScaled(algo.limitPrice)) : undefined,
+      },
+      undefined,
+      algo.id,
+    );
+    reason = child.reason;
+  }
+
+  if (last) {
+    const filled = await filledOf(algo.id);
+    const complete = filled.base >= algo.totalAmount;
+    db.update(algoOrders)
+      .set({
+        status: complete ? "COMPLETED" : "FAILED",
+        reason: complete ? null : reason ?? "Schedule ended with quantity unfilled",
+        updatedAt: Date.now(),
+      })
+      .where(and(eq(algoOrders.id, algo.id), inArray(algoOrders.status, ["RUNNING", "PAUSED"])))
+      .run();
+  }
+}
+
+/**
+ * One pass over running parents, sending each slice that is due.
+ */
+export async function runAlgoOrders(): Promise<void> {
+  const due = await db
+    .select()
+    .from(algoOrders)
+    .where(and(eq(algoOrders.status, "RUNNING"), lte(algoOrders.nextSliceAt, Date.now())));
+
+  for (const algo of due) {
+    try {
+      await runSlice(algo);
+    } catch (err) {
+      console.error(`Algo order ${algo.id} slice failed:`, err);
+    }
+  }
+}
+
+// At most one pass runs at a time; requests during a pass queue one more
+let running = false;
+let rerun = false;
+
+function requestRun(): void {
+  if (running) {
+    rerun = true;
+    return;
+  }
+  running = true;
+  runAlgoOrders()
+    .catch((err) => console.error("Algo runner failed:", err))
+    .finally(() => {
+      running = false;
+      if (rerun) {
+        rerun = false;
+        requestRun();
+      }
+    });
+}
+
+/**
+ * Check for due slices every ALGO_TICK_MS. Returns a stop function.
+ */
+export function startAlgoRunner(): () => void {
+  const timer = setInterval(requestRun, ALGO_TICK_MS);
+  requestRun();
+  return () => clearInterval(timer);
+}
@@ -19,6 +19,8 @@ export async function getBalances(accountId: string): Promise<BalanceResponse[]>
   return rows.map((row) => ({
     currency: row.currency as Currency,
     amount: fromScaled(row.amount),
+    reserved: fromScaled(row.reserved),
+    available: fromScaled(row.amount - row.reserved),
   }));
 }
 
@@ -42,7 +44,8 @@ export async function getBalance(
 
 /**
  * Debit (subtract) from an account's currency balance.
- * Atomic UPDATE with balance guard in the WHERE clause.
+ * Atomic UPDATE with balance guard in the WHERE clause, so funds reserved
+ * by resting orders can't be spent.
  * If 0 rows affected → insufficient balance, no race window.
  */
 export function debit(
@@ -60,7 +63,7 @@ export function debit(
       and(
         eq(balances.accountId, accountId),
         eq(balances.currency, currency),
-        gte(balances.amount, amount),
+        gte(sql`${balances.amount} - ${balances.reserved}`, amount),
       ),
     )
     .run() as unknown as { changes: number };
@@ -70,6 +73,54 @@ export function debit(
   }
 }
 
+/**
+ * Hold part of an account's available balance for a resting order.
+ * Same guard as debit: throws INSUFFICIENT_BALANCE if not enough is free.
+ */
+export function reserve(
+  accountId: string,
+  currency: string,
+  amount: number,
+): void {
+  const result = db
+    .update(balances)
+    .set({
+      reserved: sql`${balances.reserved} + ${amount}`,
+      updatedAt: Date.now(),
+    })
+    .where(
+      and(
+        eq(balances.accountId, accountId),
+        eq(balances.currency, currency),
+        gte(sql`${balances.amount} - ${balances.reserved}`, amount),
+      ),
+    )
+    .run() as unknown as { changes: number };
+
+  if (result.changes === 0) {
+    throw Errors.insufficientBalance(currency);
+  }
+}
+
+/**
+ * Give back a hold taken by reserve.
+ */
+export function release(
+  accountId: string,
+  currency: string,
+  amount: number,
+): void {
+  db.update(balances)
+    .set({
+      reserved: sql`${balances.reserved} - ${amount}`,
+      updatedAt: Date.now(),
+    })
+    .where(
+      and(eq(balances.accountId, accountId), eq(balances.currency, currency)),
+    )
+    .run();
+}
+
 /**
  * Credit (add) to an account's currency balance.
  * Atomic upsert: insert if new, increment if exists.
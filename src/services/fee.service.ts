@@ -0,0 +1,187 @@
+import { eq, and, gte, lt, desc, inArray, isNull, or, sql } from "drizzle-orm";
+import { db } from "../db";
+import { accounts, feeLedger, feeSchedules } from "../db/schema";
+import * as balanceService from "./balance.service";
+import { computeFee, invertPair, selectFeeSchedule, tradeFeeCurrency } from "../fees";
+import { validatePair } from "./price.service";
+import { toScaled, fromScaled } from "../money";
+import { Errors } from "../errors";
+import {
+  HOUSE_FEE_ACCOUNT_ID,
+  type Currency,
+  type FeeCurrency,
+  type FeeRevenueResponse,
+  type FeeScheduleRequest,
+  type FeeScheduleResponse,
+} from "../types";
+
+// Fee Service — commission schedules, charging fees to the house fee account
+// and the fee ledger behind the revenue report
+
+// A trade's fee: scaled amount in one of the pair's currencies
+export interface Fee {
+  amount: number;
+  currency: string;
+}
+
+type FeeScheduleRow = typeof feeSchedules.$inferSelect;
+
+/**
+ * The fee on a trade for an account, from the most specific schedule that
+ * applies, the newest if several tie. Zero in the quote currency when none
+ * does. Synchronous, so it can run inside the trade transaction.
+ */
+export function feeFor(
+  accountId: string,
+  baseCurrency: string,
+  quoteCurrency: string,
+  baseAmount: number,  // scaled
+  quoteAmount: number, // scaled
+): Fee {
+  const pair = `${baseCurrency}_${quoteCurrency}`;
+  const candidates = db
+    .select()
+    .from(feeSchedules)
+    .where(
+      and(
+        or(eq(feeSchedules.accountId, accountId), isNull(feeSchedules.accountId)),
+        or(inArray(feeSchedules.pair, [pair, invertPair(pair)]), isNull(feeSchedules.pair)),
+      ),
+    )
+    .orderBy(desc(feeSchedules.createdAt), desc(sql`rowid`))
+    .all()
+    .map((row) => ({ ...row, feeCurrency: row.feeCurrency as FeeCurrency }));
+
+  const schedule = selectFeeSchedule(candidates, accountId, pair);
+  if (!schedule) return { amount: 0, currency: quoteCurrency };
+
+  const feeCurrency = tradeFeeCurrency(schedule, pair);
+  return {
+    amount: computeFee({ ...schedule, feeCurrency }, baseAmount, quoteAmount),
+    currency: feeCurrency === "BASE" ? baseCurrency : quoteCurrency,
+  };
+}
+
+// Move a fee between the account and the house and record it in the ledger,
+// sign = +1 to charge it and -1 to refund it. Call inside a transaction.
+function postFee(accountId: string, tradeId: string, fee: Fee, sign: 1 | -1, now: number): void {
+  if (fee.amount === 0) return;
+
+  if (sign === 1) {
+    balanceService.debit(accountId, fee.currency, fee.amount);
+    balanceService.credit(HOUSE_FEE_ACCOUNT_ID, fee.currency, fee.amount);
+  } else {
+    balanceService.debit(HOUSE_FEE_ACCOUNT_ID, fee.currency, fee.amount);
+    balanceService.credit(accountId, fee.currency, fee.amount);
+  }
+
+  db.insert(feeLedger)
+    .values({
+      id: crypto.randomUUID(),
+      tradeId,
+      accountId,
+      currency: fee.currency,
+      amount: sign * fee.amount,
+      createdAt: now,
+    })
+    .run();
+}
+
+/**
+ * Charge a trade's fee: debit the account (throws INSUFFICIENT_BALANCE if
+ * it can't pay), credit the house fee account and record it in the ledger.
+ */
+export function chargeFee(accountId: string, tradeId: string, fee: Fee, now: number): void {
+  postFee(accountId, tradeId, fee, 1, now);
+}
+
+/**
+ * Give a trade's fee back from the house fee account, recorded in the
+ * ledger as a negative entry on the day of the refund.
+ */
+export function refundFee(accountId: string, tradeId: string, fee: Fee, now: number): void {
+  postFee(accountId, tradeId, fee, -1, now);
+}
+
+function toFeeScheduleResponse(row: FeeScheduleRow): FeeScheduleResponse {
+  return {
+    id: row.id,
+    accountId: row.accountId,
+    pair: row.pair,
+    bps: row.bps,
+    flatFee: fromScaled(row.flatFee),
+    minFee: fromScaled(row.minFee),
+    feeCurrency: row.feeCurrency as FeeCurrency,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Add a fee schedule. Trades booked after it use it if it's the most
+ * specific one for their account and pair. A schedule with no fee at all
+ * is a zero-fee override: adding one is how a fee is taken off again.
+ */
+export async function createFeeSchedule(request: FeeScheduleRequest): Promise<FeeScheduleResponse> {
+  if (request.pair !== undefined) {
+    const [base, quote] = request.pair.split("_");
+    validatePair(base, quote);
+  }
+  if (request.accountId !== undefined) {
+    const [account] = await db.select().from(accounts).where(eq(accounts.id, request.accountId));
+    if (!account) throw Errors.notFound("Account");
+  }
+
+  const row: FeeScheduleRow = {
+    id: crypto.randomUUID(),
+    accountId: request.accountId ?? null,
+    pair: request.pair ?? null,
+    bps: request.bps ?? 0,
+    flatFee: toScaled(request.flatFee ?? 0),
+    minFee: toScaled(request.minFee ?? 0),
+    feeCurrency: request.feeCurrency,
+    createdAt: Date.now(),
+  };
+  db.insert(feeSchedules).values(row).run();
+  return toFeeScheduleResponse(row);
+}
+
+/**
+ * Every fee schedule, newest first.
+ */
+export async function listFeeSchedules(): Promise<FeeScheduleResponse[]> {
+  const rows = await db.select().from(feeSchedules).orderBy(desc(feeSchedules.createdAt));
+  return rows.map(toFeeScheduleResponse);
+}
+
+/**
+ * Fee revenue per UTC day and currency, net of refunds, newest day first.
+ * from and to bound the ledger entries' times in epoch ms, to exclusive.
+ */
+export async function getFeeRevenue(
+  filter: { from?: number; to?: number } = {},
+): Promise<FeeRevenueResponse[]> {
+  const day = sql<string>`date(${feeLedger.createdAt} / 1000, 'unixepoch')`;
+  const rows = await db
+    .select({
+      day,
+      currency: feeLedger.currency,
+      amount: sql<number>`sum(${feeLedger.amount})`,
+      trades: sql<number>`count(distinct ${feeLedger.tradeId})`,
+    })
+    .from(feeLedger)
+    .where(
+      and(
+        filter.from !== undefined ? gte(feeLedger.createdAt, filter.from) : undefined,
+        filter.to !== undefined ? lt(feeLedger.createdAt, filter.to) : undefined,
+      ),
+    )
+    .groupBy(day, feeLedger.currency)
+    .orderBy(desc(day), feeLedger.currency);
+
+  return rows.map((row) => ({
+    day: row.day,
+    currency: row.currency as Currency,
+    amount: fromScaled(row.amount),
+    trades: row.trades,
+  }));
+}
@@ -0,0 +1,114 @@
+import { eq, and, desc } from "drizzle-orm";
+import { db } from "../db";
+import { lastLookDecisions, quotes } from "../db/schema";
+import { createQuote } from "./quote.service";
+import { getExecutionPrice } from "./price.service";
+import { houseLossBps, passesLastLook } from "../last-look";
+import { fromScaled } from "../money";
+import { Errors } from "../errors";
+import { envNumber } from "../env";
+import {
+  LAST_LOOK_LIST_LIMIT,
+  LAST_LOOK_TOLERANCE_BPS,
+  type LastLookDecision,
+  type LastLookResponse,
+  type QuoteResponse,
+  type Side,
+} from "../types";
+
+// Last Look Service — re-checking an RFQ quote against the market before it
+// fills, and the decision log for fairness review
+
+type QuoteRow = typeof quotes.$inferSelect;
+
+// A typo in LAST_LOOK_TOLERANCE_BPS would otherwise be NaN and fail every
+// RFQ execution
+const toleranceBps = envNumber("LAST_LOOK_TOLERANCE_BPS", LAST_LOOK_TOLERANCE_BPS, {
+  unit: "bps",
+  allowZero: true,
+});
+
+// A fresh quote on the same terms, sized on the leg the client fixed
+async function requoteFor(quote: QuoteRow): Promise<QuoteResponse | undefined> {
+  const amountCurrency = quote.amountCurrency ?? quote.baseCurrency;
+  const amount = amountCurrency === quote.baseCurrency ? quote.baseAmount : quote.quoteAmount;
+  try {
+    return await createQuote(
+      quote.accountId,
+      quote.baseCurrency,
+      quote.quoteCurrency,
+      quote.side as Side,
+      Number(fromScaled(amount)),
+      amountCurrency,
+    );
+  } catch (err) {
+    console.warn(`Requote for ${quote.id} failed:`, err);
+    return undefined;
+  }
+}
+
+/**
+ * Price the quote's amount at the venue again and compare it with the locked
+ * price. Throws QUOTE_REPRICED when the venue has moved against the house by
+ * more than the tolerance, with a fresh quote in the error's details when
+ * requote is set and one can be priced. Every decision is logged.
+ */
+export async function checkQuote(quote: QuoteRow, requote = false): Promise<void> {
+  const side = quote.side as Side;
+  const venue = await getExecutionPrice(quote.baseCurrency, quote.quoteCurrency, side, quote.baseAmount);
+  const lossBps = houseLossBps(side, quote.price, venue.price);
+  const decision: LastLookDecision =
+    passesLastLook(side, quote.price, venue.price, toleranceBps) ? "ACCEPTED" : "REJECTED";
+  const fresh = decision === "REJECTED" && requote ? await requoteFor(quote) : undefined;
+
+  db.insert(lastLookDecisions)
+    .values({
+      id: crypto.randomUUID(),
+      quoteId: quote.id,
+      accountId: quote.accountId,
+      side,
+      quotedPrice: quote.price,
+      venuePrice: venue.price,
+      lossBps,
+      toleranceBps,
+      decision,
+      requoteId: fresh?.id ?? null,
+      createdAt: Date.now(),
+    })
+    .run();
+
+  if (decision === "REJECTED") throw Errors.quoteRepriced(lossBps.toFixed(2), toleranceBps, fresh);
+}
+
+/**
+ * Logged decisions, newest first, optionally for one account or one outcome.
+ */
+export async function listDecisions(
+  filter: { accountId?: string; decision?: LastLookDecision } = {},
+): Promise<LastLookResponse[]> {
+  const rows = await db
+    .select()
+    .from(lastLookDecisions)
+    .where(
+      and(
+        filter.accountId !== undefined ? eq(lastLookDecisions.accountId, filter.accountId) : undefined,
+        filter.decision !== undefined ? eq(lastLookDecisions.decision, filter.decision) : undefined,
+      ),
+    )
+    .orderBy(desc(lastLookDecisions.createdAt))
+    .limit(LAST_LOOK_LIST_LIMIT);
+
+  return rows.map((row) => ({
+    id: row.id,
+    quoteId: row.quoteId,
+    accountId: row.accountId,
+    side: row.side as Side,
+    quotedPrice: fromScaled(row.quotedPrice),
+    venuePrice: fromScaled(row.venuePrice),
+    lossBps: row.lossBps,
+    toleranceBps: row.toleranceBps,
+    decision: row.decision as LastLookDecision,
+    ...(row.requoteId && { requoteId: row.requoteId }),
+    createdAt: row.createdAt,
+  }));
+}
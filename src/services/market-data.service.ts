@@ -0,0 +1,381 @@
+import { appendFileSync, readFileSync, writeFileSync } from "fs";
+import {
+  BINANCE_STREAM_URL,
+  MARKET_DATA_RECONNECT_BASE_MS,
+  MARKET_DATA_RECONNECT_MAX_MS,
+  MARKET_DATA_STALE_MS,
+  SUPPORTED_PAIRS,
+  type BinanceBookTicker,
+  type PriceSource,
+  type SupportedPair,
+} from "../types";
+
+// Market Data Service — keeps a local top of book per pair from a bookTicker
+// stream, or from ticks replayed out of a fixture file
+
+// Binance bookTicker stream payload
+interface BookTickerEvent {
+  u: number; // order book update ID
+  s: string; // symbol
+  b: string; // best bid price
+  B: string; // best bid qty
+  a: string; // best ask price
+  A: string; // best ask qty
+}
+
+export interface TopOfBook extends BinanceBookTicker {
+  updateId: number;
+  receivedAt: number;
+}
+
+/**
+ * A local top of book per pair, fed ticks by a subclass.
+ *
+ * A gapped book is not served until a fresh tick replaces it. Ticks with an
+ * update ID at or below the current one are dropped as out of order.
+ */
+export abstract class TopOfBookFeed {
+  private books = new Map<string, TopOfBook>();
+  private gapped = new Set<string>();
+  private listeners = new Set<(book: TopOfBook) => void>();
+  protected counters = { reconnects: 0, gaps: 0, outOfOrder: 0 };
+
+  constructor(protected pairs: SupportedPair[]) {
+    for (const pair of pairs) this.gapped.add(pair.symbol);
+  }
+
+  /** Name reported as the provider of prices read from this feed. */
+  abstract readonly name: string;
+  abstract start(): void;
+  abstract stop(): void;
+  abstract status(): object;
+
+  /**
+   * Current top of book for a symbol, or null if none has been received
+   * since the last gap.
+   */
+  getBook(symbol: string): TopOfBook | null {
+    if (this.gapped.has(symbol)) return null;
+    return this.books.get(symbol) ?? null;
+  }
+
+  /** Register a listener for every accepted tick. Returns an unsubscribe function. */
+  onUpdate(listener: (book: TopOfBook) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  protected bookStatus() {
+    return this.pairs.map((p) => ({
+      symbol: p.symbol,
+      gapped: this.gapped.has(p.symbol),
+      updateId: this.books.get(p.symbol)?.updateId ?? null,
+      receivedAt: this.books.get(p.symbol)?.receivedAt ?? null,
+    }));
+  }
+
+  protected markGap(): void {
+    if (this.pairs.some((p) => !this.gapped.has(p.symbol))) this.counters.gaps++;
+    for (const pair of this.pairs) this.gapped.add(pair.symbol);
+  }
+
+  protected ingest(event: BookTickerEvent, receivedAt: number): void {
+    if (!this.pairs.some((p) => p.symbol === event.s)) return;
+
+    const current = this.books.get(event.s);
+    if (current && !this.gapped.has(event.s) && event.u <= current.updateId) {
+      this.counters.outOfOrder++;
+      return;
+    }
+
+    const book: TopOfBook = {
+      symbol: event.s,
+      bidPrice: event.b,
+      bidQty: event.B,
+      askPrice: event.a,
+      askQty: event.A,
+      updateId: event.u,
+      receivedAt,
+    };
+    this.books.set(event.s, book);
+    this.gapped.delete(event.s);
+
+    for (const listener of this.listeners) listener(book);
+  }
+}
+
+/**
+ * Long-lived connection to a Binance-compatible combined bookTicker stream.
+ *
+ * Gap detection: a disconnect or a silent feed marks every book as gapped.
+ */
+export class BookTickerFeed extends TopOfBookFeed {
+  readonly name = "binance-stream";
+  private socket: WebSocket | null = null;
+  private reconnectTimer: Timer | null = null;
+  private watchdogTimer: Timer | null = null;
+  private running = false;
+  private attempt = 0;
+  private lastMessageAt = 0;
+
+  constructor(
+    private baseUrl: string,
+    pairs: SupportedPair[] = SUPPORTED_PAIRS,
+    private staleMs: number = MARKET_DATA_STALE_MS,
+  ) {
+    super(pairs);
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.connect();
+    this.watchdogTimer = setInterval(() => this.checkSilence(), this.staleMs);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.watchdogTimer) clearInterval(this.watchdogTimer);
+    this.reconnectTimer = null;
+    this.watchdogTimer = null;
+    this.detach();
+  }
+
+  status() {
+    return {
+      source: "live",
+      connected: this.socket?.readyState === WebSocket.OPEN,
+      ...this.counters,
+      books: this.bookStatus(),
+    };
+  }
+
+  private streamUrl(): string {
+    const streams = this.pairs
+      .map((p) => `${p.symbol.toLowerCase()}@bookTicker`)
+      .join("/");
+    return `${this.baseUrl}/stream?streams=${streams}`;
+  }
+
+  private connect(): void {
+    this.reconnectTimer = null;
+    const socket = new WebSocket(this.streamUrl());
+    this.socket = socket;
+    this.lastMessageAt = Date.now();
+
+    socket.onmessage = (event) => this.handleMessage(String(event.data));
+    socket.onclose = () => {
+      if (this.socket === socket) this.handleDisconnect();
+    };
+  }
+
+  // Drop the current socket without triggering its close handler
+  private detach(): void {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  private handleDisconnect(): void {
+    this.detach();
+    this.markGap();
+    if (!this.running) return;
+
+    // Exponential backoff with jitter so restarts do not reconnect in lockstep
+    const ceiling = Math.min(
+      MARKET_DATA_RECONNECT_MAX_MS,
+      MARKET_DATA_RECONNECT_BASE_MS * 2 ** this.attempt,
+    );
+    const delay = ceiling / 2 + Math.random() * (ceiling / 2);
+    this.attempt++;
+    this.counters.reconnects++;
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  // A half-open connection never fires close, so silence forces a reconnect
+  private checkSilence(): void {
+    if (this.socket && Date.now() - this.lastMessageAt > this.staleMs) {
+      console.warn(`Market data feed silent for ${this.staleMs}ms, reconnecting`);
+      this.handleDisconnect();
+    }
+  }
+
+  private handleMessage(raw: string): void {
+    this.lastMessageAt = Date.now();
+    this.attempt = 0;
+
+    let event: BookTickerEvent;
+    try {
+      const message = JSON.parse(raw);
+      event = message.data ?? message; // combined streams wrap the payload
+    } catch {
+      return;
+    }
+    if (typeof event?.s !== "string" || typeof event.u !== "number") return;
+    this.ingest(event, this.lastMessageAt);
+  }
+}
+
+// One tick in a fixture: a bookTicker payload and the time it was received.
+// u is ignored on replay, ticks apply in file order.
+export interface RecordedTick extends Omit<BookTickerEvent, "u"> {
+  t: number; // received at, epoch ms
+  u?: number;
+}
+
+/**
+ * Parse a fixture of recorded ticks, either a JSON array or NDJSON with one
+ * tick per line. A tick without t plays at the same time as the one before.
+ * Throws on a malformed tick so a bad fixture fails at startup.
+ */
+export function parseTicks(text: string, source = "fixture"): RecordedTick[] {
+  const trimmed = text.trim();
+  const entries: unknown[] = trimmed.startsWith("[")
+    ? JSON.parse(trimmed)
+    : trimmed.split("\n").filter((line) => line.trim()).map((line) => JSON.parse(line));
+
+  let t = 0;
+  return entries.map((entry, i) => {
+    const tick = entry as Partial<RecordedTick>;
+    for (const field of ["s", "b", "B", "a", "A"] as const) {
+      if (typeof tick?.[field] !== "string") {
+        throw new Error(`Tick ${i + 1} in ${source} has no "${field}" string`);
+      }
+    }
+    if (tick.t !== undefined && typeof tick.t !== "number") {
+      throw new Error(`Tick ${i + 1} in ${source} has a non-numeric "t"`);
+    }
+    t = tick.t ?? t;
+    return { ...(tick as RecordedTick), t };
+  });
+}
+
+/**
+ * Plays recorded ticks into a local top of book, keeping their relative
+ * timing scaled by speed (2 plays twice as fast). With loop the fixture
+ * restarts after its last tick, otherwise the last books stay current.
+ * Books are stamped with the time they are replayed, not recorded.
+ */
+export class ReplayFeed extends TopOfBookFeed {
+  readonly name = "replay";
+  private timer: Timer | null = null;
+  private running = false;
+  private position = 0;
+  private loops = 0;
+  private sequence = 0;
+  private startedAt = 0;
+
+  constructor(
+    private ticks: RecordedTick[],
+    private speed = 1,
+    private loop = false,
+    pairs: SupportedPair[] = SUPPORTED_PAIRS,
+  ) {
+    super(pairs);
+    if (!(speed > 0)) throw new Error(`Replay speed must be positive, got ${speed}`);
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.position = 0;
+    this.startedAt = Date.now();
+    this.play();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  status() {
+    return {
+      source: "replay",
+      connected: this.running,
+      position: this.position,
+      ticks: this.ticks.length,
+      loops: this.loops,
+      ...this.counters,
+      books: this.bookStatus(),
+    };
+  }
+
+  // Fixture time of a tick, relative to the first
+  private offset(index: number): number {
+    return this.ticks[index].t - this.ticks[0].t;
+  }
+
+  private play(): void {
+    this.timer = null;
+    if (!this.running) return;
+
+    const elapsed = (Date.now() - this.startedAt) * this.speed;
+    while (this.position < this.ticks.length && this.offset(this.position) <= elapsed) {
+      const tick = this.ticks[this.position++];
+      this.ingest({ ...tick, u: ++this.sequence }, Date.now());
+    }
+
+    if (this.position < this.ticks.length) {
+      const wait = (this.offset(this.position) - elapsed) / this.speed;
+      this.timer = setTimeout(() => this.play(), wait);
+    } else if (this.loop && this.ticks.length) {
+      // Wrap on a timer so a fixture with no time span can't spin
+      this.timer = setTimeout(() => {
+        this.loops++;
+        this.position = 0;
+        this.startedAt = Date.now();
+        this.play();
+      }, 1);
+    }
+  }
+}
+
+/**
+ * Append every tick the feed accepts to an NDJSON file, in the fixture
+ * format ReplayFeed reads. Truncates the file first. Returns a stop function.
+ */
+export function recordTicks(feed: TopOfBookFeed, path: string): () => void {
+  writeFileSync(path, "");
+  return feed.onUpdate((book) => {
+    const tick: RecordedTick = {
+      t: book.receivedAt,
+      u: book.updateId,
+      s: book.symbol,
+      b: book.bidPrice,
+      B: book.bidQty,
+      a: book.askPrice,
+      A: book.askQty,
+    };
+    appendFileSync(path, JSON.stringify(tick) + "\n");
+  });
+}
+
+/**
+ * PRICE_SOURCE env var, "live" by default. Throws on an unknown source.
+ */
+function loadPriceSource(): PriceSource {
+  const source = process.env.PRICE_SOURCE ?? "live";
+  if (source !== "live" && source !== "replay") {
+    throw new Error(`Unknown price source "${source}"`);
+  }
+  return source;
+}
+
+export const priceSource = loadPriceSource();
+
+function createFeed(): TopOfBookFeed {
+  if (priceSource === "live") {
+    return new BookTickerFeed(process.env.MARKET_DATA_URL || BINANCE_STREAM_URL);
+  }
+  const path = process.env.PRICE_FIXTURE;
+  if (!path) throw new Error("PRICE_SOURCE=replay needs a PRICE_FIXTURE file");
+  return new ReplayFeed(
+    parseTicks(readFileSync(path, "utf8"), path),
+    Number(process.env.PRICE_REPLAY_SPEED ?? 1),
+    process.env.PRICE_REPLAY_LOOP === "true",
+  );
+}
+
+export const marketData = createFeed();
@@ -0,0 +1,83 @@
+import { eq, and, asc, sql } from "drizzle-orm";
+import { db, sqlite } from "../db";
+import { orderEvents, orders } from "../db/schema";
+import {
+  ORDER_TRANSITIONS,
+  type OrderEventResponse,
+  type OrderEventType,
+  type OrderStatus,
+} from "../types";
+
+// Order Event Service — the order state machine and each order's event history
+
+type OrderRow = typeof orders.$inferSelect;
+
+/**
+ * Append an entry to an order's history.
+ */
+export function recordEvent(
+  orderId: string,
+  type: OrderEventType,
+  status: OrderStatus,
+  now: number,
+  detail?: Record<string, unknown>,
+): void {
+  db.insert(orderEvents)
+    .values({ id: crypto.randomUUID(), orderId, type, status, detail: detail ?? null, createdAt: now })
+    .run();
+}
+
+/**
+ * Move an order to a new status and record it in its history. The update is
+ * guarded on the current status, and on the version when one is given, so
+ * of two racing changes only one wins; the other gets false. Throws on a
+ * move ORDER_TRANSITIONS doesn't allow.
+ */
+export const transition = sqlite.transaction(
+  (
+    order: { id: string; status: string; version?: number },
+    to: OrderStatus,
+    now: number,
+    fields: Partial<Pick<OrderRow, "tradeId" | "reason">> = {},
+    detail?: Record<string, unknown>,
+  ): boolean => {
+    if (!ORDER_TRANSITIONS[order.status as OrderStatus].includes(to)) {
+      throw new Error(`Order ${order.id} cannot move from ${order.status} to ${to}`);
+    }
+
+    const result = db.update(orders)
+      .set({ ...fields, status: to, version: sql`${orders.version} + 1`, updatedAt: now })
+      .where(
+        and(
+          eq(orders.id, order.id),
+          eq(orders.status, order.status),
+          order.version !== undefined ? eq(orders.version, order.version) : undefined,
+        ),
+      )
+      .run() as any;
+
+    if (result.changes === 0) return false;
+    recordEvent(order.id, to as OrderEventType, to, now, detail);
+    return true;
+  },
+);
+
+/**
+ * An order's history, oldest first.
+ */
+export async function listEvents(orderId: string): Promise<OrderEventResponse[]> {
+  const rows = await db
+    .select()
+    .from(orderEvents)
+    .where(eq(orderEvents.orderId, orderId))
+    .orderBy(asc(orderEvents.createdAt), sql`rowid`);
+
+  return rows.map((row) => ({
+    id: row.id,
+    orderId: row.orderId,
+    type: row.type as OrderEventType,
+    status: row.status as OrderStatus,
+    ...(row.detail && { detail: row.detail }),
+    createdAt: row.createdAt,
+  }));
+}
@@ -0,0 +1,629 @@
+import { eq, and, ne, desc } from "drizzle-orm";
+import { db, sqlite } from "../db";
+import { orders } from "../db/schema";
+import * as balanceService from "./balance.service";
+import * as tradeService from "./trade.service";
+import { listEvents, recordEvent, transition } from "./order-event.service";
+import { getPrice, onPriceUpdate, validatePair } from "./price.service";
+import { toScaled, fromScaled, parsePrice, scaledMultiply } from "../money";
+import { AppError, Errors } from "../errors";
+import {
+  ORDER_MATCH_INTERVAL_MS,
+  type AmendOrderRequest,
+  type MarketTradeRequest,
+  type OrderEventResponse,
+  type OrderResponse,
+  type OrderStatus,
+  type OrderType,
+  type PlaceOrderRequest,
+  type Side,
+} from "../types";
+
+// Order Service — the order entity in front of the trade service: market,
+// limit and conditional orders, their fund reservations, amendments and the
+// matcher
+
+type OrderRow = typeof orders.$inferSelect;
+type ConditionalType = Exclude<OrderType, "MARKET" | "LIMIT">;
+type PriceProtection = Pick<MarketTradeRequest, "maxSlippageBps" | "limitPrice">;
+
+function toOrderResponse(row: OrderRow): OrderResponse {
+  return {
+    id: row.id,
+    ...(row.clientOrderId && { clientOrderId: row.clientOrderId }),
+    ...(row.parentId && { parentId: row.parentId }),
+    type: row.type as OrderType,
+    baseCurrency: row.baseCurrency as any,
+    quoteCurrency: row.quoteCurrency as any,
+    side: row.side as Side,
+    baseAmount: fromScaled(row.baseAmount),
+    ...(row.limitPrice !== null && { limitPrice: fromScaled(row.limitPrice) }),
+    ...(row.triggerPrice !== null && { triggerPrice: fromScaled(row.triggerPrice) }),
+    ...(row.ocoId && { ocoId: row.ocoId }),
+    status: row.status as OrderStatus,
+    reservedCurrency: row.reservedCurrency as any,
+    reservedAmount: fromScaled(row.reservedAmount),
+    ...(row.tradeId && { tradeId: row.tradeId }),
+    ...(row.reason && { reason: row.reason }),
+    expiresAt: row.expiresAt,
+    version: row.version,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Place any single order from POST /api/v1/orders. A MARKET order trades
+ * before this returns and comes back FILLED or REJECTED; the others rest.
+ */
+export async function placeOrder(
+  accountId: string,
+  request: PlaceOrderRequest,
+): Promise<OrderResponse> {
+  const { baseCurrency, quoteCurrency, side, amount, clientOrderId } = request;
+
+  switch (request.type) {
+    case "MARKET":
+      // An order's amount is reserved and amended in the base currency
+      if (request.amountCurrency !== undefined && request.amountCurrency !== baseCurrency) {
+        throw Errors.validation(
+          "Market orders are sized in the base currency; use POST /api/v1/trades to fix the quote amount",
+        );
+      }
+      return placeMarketOrder(
+        accountId, baseCurrency, quoteCurrency, side, amount,
+        { maxSlippageBps: request.maxSlippageBps, limitPrice: request.limitPrice },
+        clientOrderId,
+      );
+    case "LIMIT":
+      return placeLimitOrder(
+        accountId, baseCurrency, quoteCurrency, side, amount,
+        request.limitPrice, request.expiresAt, clientOrderId,
+      );
+    default:
+      return placeConditionalOrder(
+        accountId, request.type, baseCurrency, quoteCurrency, side, amount,
+        request.triggerPrice, request.expiresAt, clientOrderId,
+      );
+  }
+}
+
+/**
+ * Record a market order and trade it straight away through
+ * executeMarketTrade. Trade failures don't throw: the order is returned
+ * REJECTED with the reason. parentId marks it as a slice of an algo order.
+ */
+export async function placeMarketOrder(
+  accountId: string,
+  baseCurrency: string,
+  quoteCurrency: string,
+  side: Side,
+  amount: number, // human-readable decimal
+  protection: PriceProtection = {},
+  clientOrderId?: string,
+  parentId?: string,
+): Promise<OrderResponse> {
+  validatePair(baseCurrency, quoteCurrency);
+  const now = Date.now();
+
+  const row = newRow(accountId, "MARKET", baseCurrency, quoteCurrency, side, amount, now, clientOrderId);
+  row.parentId = parentId ?? null;
+  if (protection.limitPrice !== undefined) row.limitPrice = toScaled(protection.limitPrice);
+  placeOrderTx(
+    [row],
+    protection.maxSlippageBps !== undefined ? { maxSlippageBps: protection.maxSlippageBps } : undefined,
+  );
+
+  await executeAtMarket(row, "NEW", protection);
+  return getOrder(accountId, row.id);
+}
+
+/**
+ * Rest a limit order until the market crosses it. The most it can spend is
+ * reserved up front: the quote notional at the limit for a BUY, the base
+ * amount for a SELL. Throws INSUFFICIENT_BALANCE if that isn't available.
+ */
+export async function placeLimitOrder(
+  accountId: string,
+  baseCurrency: string,
+  quoteCurrency: string,
+  side: Side,
+  amount: number,     // human-readable decimal
+  limitPrice: number, // human-readable decimal
+  expiresAt?: number,
+  clientOrderId?: string,
+): Promise<OrderResponse> {
+  validatePair(baseCurrency, quoteCurrency);
+  const now = Date.now();
+  checkExpiry(expiresAt, now);
+
+  const row = newRow(accountId, "LIMIT", baseCurrency, quoteCurrency, side, amount, now, clientOrderId);
+  row.limitPrice = toScaled(limitPrice);
+  row.reservedAmount = reservationFor(side, row.baseAmount, row.limitPrice);
+  row.expiresAt = expiresAt ?? null;
+
+  placeOrderTx([row]);
+  requestMatch();
+  return toOrderResponse(row);
+}
+
+/**
+ * Arm a stop-loss or take-profit: a market trade placed once the price for
+ * its side crosses triggerPrice. Nothing is reserved, so the trade can
+ * still be rejected for balance when it triggers.
+ */
+export async function placeConditionalOrder(
+  accountId: string,
+  type: ConditionalType,
+  baseCurrency: string,
+  quoteCurrency: string,
+  side: Side,
+  amount: number,       // human-readable decimal
+  triggerPrice: number, // human-readable decimal
+  expiresAt?: number,
+  clientOrderId?: string,
+): Promise<OrderResponse> {
+  validatePair(baseCurrency, quoteCurrency);
+  const now = Date.now();
+  checkExpiry(expiresAt, now);
+
+  const row = conditionalRow(
+    accountId, type, baseCurrency, quoteCurrency, side, amount, triggerPrice, expiresAt, now,
+  );
+  row.clientOrderId = clientOrderId ?? null;
+  placeOrderTx([row]);
+  requestMatch();
+  return toOrderResponse(row);
+}
+
+/**
+ * Arm a stop-loss and a take-profit on the same amount, linked so that the
+ * first to trigger cancels the other. The stop must sit on the losing side
+ * of the target: below it for a SELL, above it for a BUY.
+ */
+export async function placeOcoOrder(
+  accountId: string,
+  baseCurrency: string,
+  quoteCurrency: string,
+  side: Side,
+  amount: number,          // human-readable decimal
+  stopPrice: number,       // human-readable decimal
+  takeProfitPrice: number, // human-readable decimal
+  expiresAt?: number,
+): Promise<OrderResponse[]> {
+  validatePair(baseCurrency, quoteCurrency);
+  const now = Date.now();
+  checkExpiry(expiresAt, now);
+  checkOcoPrices(side, toScaled(stopPrice), toScaled(takeProfitPrice));
+
+  const stop = conditionalRow(
+    accountId, "STOP_LOSS", baseCurrency, quoteCurrency, side, amount, stopPrice, expiresAt, now,
+  );
+  const target = conditionalRow(
+    accountId, "TAKE_PROFIT", baseCurrency, quoteCurrency, side, amount, takeProfitPrice, expiresAt, now,
+  );
+  stop.ocoId = target.id;
+  target.ocoId = stop.id;
+
+  placeOrderTx([stop, target]);
+  requestMatch();
+  return [stop, target].map(toOrderResponse);
+}
+
+function checkExpiry(expiresAt: number | null | undefined, now: number): void {
+  if (expiresAt != null && expiresAt <= now) {
+    throw Errors.validation("expiresAt must be in the future");
+  }
+}
+
+function checkOcoPrices(side: Side, stopPrice: number, takeProfitPrice: number): void {
+  if (side === "SELL" ? stopPrice >= takeProfitPrice : stopPrice <= takeProfitPrice) {
+    throw Errors.validation(
+      `stopPrice must be ${side === "SELL" ? "below" : "above"} takeProfitPrice for a ${side}`,
+    );
+  }
+}
+
+// What a LIMIT order can spend: the quote notional at the limit for a BUY,
+// the base amount for a SELL
+function reservationFor(side: Side, baseAmount: number, limitPrice: number): number {
+  return side === "BUY" ? scaledMultiply(baseAmount, limitPrice) : baseAmount;
+}
+
+function newRow(
+  accountId: string,
+  type: OrderType,
+  baseCurrency: string,
+  quoteCurrency: string,
+  side: Side,
+  amount: number,
+  now: number,
+  clientOrderId?: string,
+): OrderRow {
+  return {
+    id: crypto.randomUUID(),
+    accountId,
+    clientOrderId: clientOrderId ?? null,
+    parentId: null,
+    type,
+    baseCurrency,
+    quoteCurrency,
+    side,
+    baseAmount: toScaled(amount),
+    limitPrice: null,
+    triggerPrice: null,
+    ocoId: null,
+    status: "NEW",
+    reservedCurrency: side === "BUY" ? quoteCurrency : baseCurrency,
+    reservedAmount: 0,
+    tradeId: null,
+    reason: null,
+    expiresAt: null,
+    version: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function conditionalRow(
+  accountId: string,
+  type: ConditionalType,
+  baseCurrency: string,
+  quoteCurrency: string,
+  side: Side,
+  amount: number,
+  triggerPrice: number,
+  expiresAt: number | undefined,
+  now: number,
+): OrderRow {
+  return {
+    ...newRow(accountId, type, baseCurrency, quoteCurrency, side, amount, now),
+    triggerPrice: toScaled(triggerPrice),
+    expiresAt: expiresAt ?? null,
+  };
+}
+
+const placeOrderTx = sqlite.transaction((rows: OrderRow[], detail?: Record<string, unknown>) => {
+  for (const row of rows) {
+    if (row.clientOrderId) {
+      const existing = db.select({ id: orders.id })
+        .from(orders)
+        .where(and(eq(orders.accountId, row.accountId), eq(orders.clientOrderId, row.clientOrderId)))
+        .get();
+      if (existing) throw Errors.duplicateClientOrderId(row.clientOrderId);
+    }
+    // Market and conditional orders reserve nothing, and the account may not
+    // hold the currency at all
+    if (row.reservedAmount > 0) {
+      balanceService.reserve(row.accountId, row.reservedCurrency, row.reservedAmount);
+    }
+    db.insert(orders).values(row).run();
+    recordEvent(row.id, "PLACED", "NEW", row.createdAt, row.ocoId ? { ...detail, ocoId: row.ocoId } : detail);
+  }
+});
+
+/**
+ * Move a NEW order, and its OCO sibling, to a closing status and release
+ * their reservations. Returns false if the order was no longer NEW, or was
+ * amended since it was read.
+ */
+const closeOrderTx = sqlite.transaction(
+  (order: OrderRow, status: "CANCELLED" | "EXPIRED", now: number): boolean => {
+    if (!transition(order, status, now)) return false;
+    balanceService.release(order.accountId, order.reservedCurrency, order.reservedAmount);
+    // Conditional orders reserve nothing, so the sibling has nothing to release
+    if (order.ocoId) transition({ id: order.ocoId, status: "NEW" }, status, now, {}, { ocoId: order.id });
+    return true;
+  },
+);
+
+// Move a NEW order to REJECTED with the reason and release its reservation
+const rejectOrderTx = sqlite.transaction((order: OrderRow, reason: string, now: number): boolean => {
+  if (!transition(order, "REJECTED", now, { reason }, { reason })) return false;
+  balanceService.release(order.accountId, order.reservedCurrency, order.reservedAmount);
+  return true;
+});
+
+async function findOrder(accountId: string, orderId: string): Promise<OrderRow> {
+  const [row] = await db.select().from(orders).where(eq(orders.id, orderId));
+  if (!row || row.accountId !== accountId) throw Errors.notFound("Order");
+  return row;
+}
+
+// Market orders trade within the request that placed them, so there is
+// nothing to cancel or amend
+function checkChangeable(order: OrderRow): void {
+  if (order.type === "MARKET") {
+    throw Errors.validation("MARKET orders execute immediately and cannot be changed");
+  }
+  if (order.status !== "NEW") throw Errors.orderNotOpen(order.status);
+}
+
+/**
+ * Get orders for an account, newest first, optionally by client order ID
+ * or by the algo order they are slices of.
+ */
+export async function getOrders(
+  accountId: string,
+  filter: { clientOrderId?: string; parentId?: string } = {},
+): Promise<OrderResponse[]> {
+  const rows = await db
+    .select()
+    .from(orders)
+    .where(
+      and(
+        eq(orders.accountId, accountId),
+        filter.clientOrderId !== undefined ? eq(orders.clientOrderId, filter.clientOrderId) : undefined,
+        filter.parentId !== undefined ? eq(orders.parentId, filter.parentId) : undefined,
+      ),
+    )
+    .orderBy(desc(orders.createdAt));
+
+  return rows.map(toOrderResponse);
+}
+
+/**
+ * Get a single order by ID. Orders of other accounts are NOT_FOUND.
+ */
+export async function getOrder(accountId: string, orderId: string): Promise<OrderResponse> {
+  return toOrderResponse(await findOrder(accountId, orderId));
+}
+
+/**
+ * Get an order's event history, oldest first.
+ */
+export async function getOrderEvents(
+  accountId: string,
+  orderId: string,
+): Promise<OrderEventResponse[]> {
+  await findOrder(accountId, orderId);
+  return listEvents(orderId);
+}
+
+/**
+ * Cancel a resting order and release its funds. Cancelling either order of
+ * an OCO pair cancels both. Throws ORDER_NOT_OPEN once it has left NEW.
+ */
+export async function cancelOrder(accountId: string, orderId: string): Promise<OrderResponse> {
+  // Loops only when an amend bumped the version between the read and the cancel
+  for (;;) {
+    const order = await findOrder(accountId, orderId);
+    checkChangeable(order);
+    if (closeOrderTx(order, "CANCELLED", Date.now())) return getOrder(accountId, orderId);
+  }
+}
+
+type Amended = Pick<OrderRow, "baseAmount" | "limitPrice" | "triggerPrice" | "expiresAt" | "reservedAmount">;
+
+/**
+ * Amend a NEW order's amount, limitPrice, triggerPrice or expiresAt. A LIMIT
+ * order's reservation is re-sized in the same transaction, so an amend the
+ * balance can't cover fails with INSUFFICIENT_BALANCE and changes nothing.
+ */
+export async function amendOrder(
+  accountId: string,
+  orderId: string,
+  changes: AmendOrderRequest,
+): Promise<OrderResponse> {
+  // Loops only when another change bumped the version while this one was prepared
+  for (;;) {
+    const order = await findOrder(accountId, orderId);
+    checkChangeable(order);
+    const now = Date.now();
+
+    if (changes.limitPrice !== undefined && order.type !== "LIMIT") {
+      throw Errors.validation("limitPrice can only be amended on a LIMIT order");
+    }
+    if (changes.triggerPrice !== undefined && order.type === "LIMIT") {
+      throw Errors.validation("triggerPrice can only be amended on a STOP_LOSS or TAKE_PROFIT order");
+    }
+    checkExpiry(changes.expiresAt, now);
+
+    const amended: Amended = {
+      baseAmount: changes.amount !== undefined ? toScaled(changes.amount) : order.baseAmount,
+      limitPrice: changes.limitPrice !== undefined ? toScaled(changes.limitPrice) : order.limitPrice,
+      triggerPrice: changes.triggerPrice !== undefined ? toScaled(changes.triggerPrice) : order.triggerPrice,
+      expiresAt: changes.expiresAt !== undefined ? changes.expiresAt : order.expiresAt,
+      reservedAmount: order.reservedAmount,
+    };
+    if (order.type === "LIMIT") {
+      amended.reservedAmount = reservationFor(order.side as Side, amended.baseAmount, amended.limitPrice!);
+    }
+    if (order.ocoId && changes.triggerPrice !== undefined) {
+      const [sibling] = await db.select().from(orders).where(eq(orders.id, order.ocoId));
+      const [stop, target] = order.type === "STOP_LOSS"
+        ? [amended.triggerPrice!, sibling.triggerPrice!]
+        : [sibling.triggerPrice!, amended.triggerPrice!];
+      checkOcoPrices(order.side as Side, stop, target);
+    }
+
+    if (amendOrderTx(order, amended, amendDetail(order, amended), now)) {
+      requestMatch();
+      return getOrder(accountId, orderId);
+    }
+  }
+}
+
+// The fields an amend changed, from and to, for the event history
+function amendDetail(order: OrderRow, amended: Amended): Record<string, unknown> {
+  const detail: Record<string, unknown> = {};
+  for (const key of ["baseAmount", "limitPrice", "triggerPrice", "reservedAmount"] as const) {
+    const from = order[key];
+    const to = amended[key];
+    if (from !== to) {
+      detail[key] = {
+        from: from === null ? null : fromScaled(from),
+        to: to === null ? null : fromScaled(to),
+      };
+    }
+  }
+  if (amended.expiresAt !== order.expiresAt) {
+    detail.expiresAt = { from: order.expiresAt, to: amended.expiresAt };
+  }
+  return detail;
+}
+
+// Apply an amend guarded on status and version, swapping the old reservation
+// for the new one. Returns false if the order changed since it was read.
+const amendOrderTx = sqlite.transaction(
+  (order: OrderRow, amended: Amended, detail: Record<string, unknown>, now: number): boolean => {
+    const result = db.update(orders)
+      .set({ ...amended, version: order.version + 1, updatedAt: now })
+      .where(and(eq(orders.id, order.id), eq(orders.status, "NEW"), eq(orders.version, order.version)))
+      .run() as any;
+
+    if (result.changes === 0) return false;
+    balanceService.release(order.accountId, order.reservedCurrency, order.reservedAmount);
+    balanceService.reserve(order.accountId, order.reservedCurrency, amended.reservedAmount);
+    recordEvent(order.id, "AMENDED", "NEW", now, detail);
+    return true;
+  },
+);
+
+// True unless the displayed top of book already rules a fill out. The spread
+// only worsens the price, so a limit outside the touch can't cross.
+async function mayCross(order: OrderRow): Promise<boolean> {
+  const price = await getPrice(`${order.baseCurrency}_${order.quoteCurrency}`);
+  const limit = order.limitPrice!;
+  return order.side === "BUY"
+    ? parsePrice(price.askPrice) <= limit
+    : parsePrice(price.bidPrice) >= limit;
+}
+
+// A SELL watches the bid and a BUY the ask. A stop-loss triggers when that
+// price moves through the trigger against the position, a take-profit when
+// it moves through in favour. Stale prices never trigger.
+async function isTriggered(order: OrderRow): Promise<boolean> {
+  const price = await getPrice(`${order.baseCurrency}_${order.quoteCurrency}`);
+  if (price.stale) return false;
+
+  const trigger = order.triggerPrice!;
+  if (order.side === "SELL") {
+    const bid = parsePrice(price.bidPrice);
+    return order.type === "STOP_LOSS" ? bid <= trigger : bid >= trigger;
+  }
+  const ask = parsePrice(price.askPrice);
+  return order.type === "STOP_LOSS" ? ask >= trigger : ask <= trigger;
+}
+
+/**
+ * Claim a NEW conditional order as TRIGGERED. Its OCO sibling stays armed
+ * until the trade fills, but can't trigger while this one is in flight.
+ * Returns false if a cancel, amend, expiry or the sibling got there first.
+ */
+const claimOrderTx = sqlite.transaction((order: OrderRow, now: number): boolean => {
+  if (order.ocoId) {
+    const sibling = db.select({ status: orders.status }).from(orders).where(eq(orders.id, order.ocoId)).get();
+    if (sibling?.status === "TRIGGERED") return false;
+  }
+  return transition(order, "TRIGGERED", now);
+});
+
+// Mark an order FILLED by its trade and cancel its OCO sibling with it
+const fillOrderTx = sqlite.transaction(
+  (order: OrderRow, from: "NEW" | "TRIGGERED", tradeId: string, now: number): void => {
+    transition({ id: order.id, status: from }, "FILLED", now, { tradeId }, { tradeId });
+    if (order.ocoId) transition({ id: order.ocoId, status: "NEW" }, "CANCELLED", now, {}, { ocoId: order.id });
+  },
+);
+
+// Place the market trade for an order. It ends FILLED with a link to the
+// trade, cancelling any OCO sibling, or REJECTED with the reason the trade
+// failed, leaving the sibling armed.
+async function executeAtMarket(
+  order: OrderRow,
+  from: "NEW" | "TRIGGERED",
+  protection: PriceProtection,
+): Promise<void> {
+  try {
+    const trade = await tradeService.executeMarketTrade(
+      order.accountId,
+      order.baseCurrency,
+      order.quoteCurrency,
+      order.side as Side,
+      Number(fromScaled(order.baseAmount)),
+      protection,
+      order.id,
+    );
+    fillOrderTx(order, from, trade.id, Date.now());
+  } catch (err) {
+    if (!(err instanceof AppError)) console.error(`Market order ${order.id} failed:`, err);
+    const reason = err instanceof AppError ? `${err.code}: ${err.message}` : "Internal error";
+    transition({ id: order.id, status: from }, "REJECTED", Date.now(), { reason }, { reason });
+  }
+}
+
+// Fill a limit order the market crosses. The reservation covers the trade
+// but not its fee, so a fill the balance can't pay the fee on would fail the
+// same way every pass: the order is REJECTED with the reason instead.
+async function fillLimitOrder(order: OrderRow): Promise<void> {
+  try {
+    await tradeService.executeLimitOrder(order);
+  } catch (err) {
+    if (!(err instanceof AppError) || err.code !== "INSUFFICIENT_BALANCE") throw err;
+    const reason = `${err.code}: ${err.message}`;
+    if (rejectOrderTx(order, reason, Date.now())) console.warn(`Limit order ${order.id} rejected: ${reason}`);
+  }
+}
+
+/**
+ * One pass over the resting orders: expire those past expiresAt, fill limit
+ * orders the market now crosses and trigger conditional orders whose price
+ * has been reached. An order that can't be priced this pass keeps resting;
+ * a limit order that can't pay its fee is REJECTED.
+ */
+export async function matchOrders(): Promise<void> {
+  const open = await db
+    .select()
+    .from(orders)
+    .where(and(eq(orders.status, "NEW"), ne(orders.type, "MARKET")));
+
+  for (const order of open) {
+    try {
+      if (order.expiresAt !== null && Date.now() > order.expiresAt) {
+        closeOrderTx(order, "EXPIRED", Date.now());
+      } else if (order.type === "LIMIT") {
+        if (await mayCross(order)) await fillLimitOrder(order);
+      } else if (await isTriggered(order)) {
+        if (claimOrderTx(order, Date.now())) await executeAtMarket(order, "TRIGGERED", {});
+      }
+    } catch (err) {
+      if (!(err instanceof AppError)) console.error(`Matching order ${order.id} failed:`, err);
+    }
+  }
+}
+
+// At most one pass runs at a time; requests during a pass queue one more
+let matching = false;
+let rematch = false;
+
+function requestMatch(): void {
+  if (matching) {
+    rematch = true;
+    return;
+  }
+  matching = true;
+  matchOrders()
+    .catch((err) => console.error("Order matcher failed:", err))
+    .finally(() => {
+      matching = false;
+      if (rematch) {
+        rematch = false;
+        requestMatch();
+      }
+    });
+}
+
+/**
+ * Run the matcher on every price tick, and every ORDER_MATCH_INTERVAL_MS.
+ * Returns a stop function.
+ */
+export function startOrderMatcher(): () => void {
+  const unsubscribe = onPriceUpdate(() => requestMatch());
+  const timer = setInterval(requestMatch, ORDER_MATCH_INTERVAL_MS);
+  requestMatch();
+  return () => {
+    unsubscribe();
+    clearInterval(timer);
+  };
+}
@@ -1,166 +1,470 @@
 import {
+  BINANCE_API_URL,
   BINANCE_BASE_URL,
+  CURRENCIES,
+  DEPTH_CACHE_TTL_MS,
+  DEPTH_LEVELS,
   PRICE_CACHE_TTL_MS,
+  PRICE_PROVIDER_TIMEOUT_MS,
+  PRICE_PROVIDERS,
   SUPPORTED_PAIRS,
-  SPREAD_MARKUP,
   type BinanceBookTicker,
-  type BinanceTickerPrice,
+  type BinanceDepth,
+  type ChildFill,
+  type ConsumedLevel,
+  type Currency,
+  type PriceLeg,
   type PriceResponse,
   type SupportedPair,
+  type VenueAdapter,
+  type VenueQuote,
 } from "../types";
-import { parsePrice } from "../money";
-import { getBestQuote } from "./sor.service";
+import { SCALE, fromScaled, parsePrice, scaledMultiply } from "../money";
+import { walkBook, type DepthLevel, type OrderBookDepth } from "../order-book";
+import { PriceCache } from "../price-cache";
+import { PriceProviderChain, type PriceProvider, type ProvidedBook } from "../price-providers";
+import {
+  applyRoute,
+  composeRoute,
+  findRoute,
+  legSide,
+  type BidAsk,
+  type RouteLeg,
+} from "../cross-rates";
+import { routeOrder } from "./sor.service";
+import { binance } from "../venues/binance";
+import { coinGecko } from "../venues/coingecko";
+import { massiveFX } from "../venues/massivefx";
+import { marketData, priceSource } from "./market-data.service";
 import { Errors } from "../errors";
+import { envNumber } from "../env";
 
-// In-memory TTL cache for price data
-interface CacheEntry<T> {
-  value: T;
-  expiresAt: number;
-}
+// Price Service. Display prices, and the estimates and trigger checks made
+// from them, read top of book from a chain of providers: the local book,
+// then cached REST endpoints, then a non-Binance venue. Execution prices
+// come from the venue aggregator instead, where each venue fetches its own
+// prices. A replay reads the local book only.
 
-class PriceCache<K, V> {
-  private store = new Map<K, CacheEntry<V>>();
+// Start refreshing a cached REST price this long before it expires, 0 disables.
+// At or past the TTL every read would refresh, so that is refused at startup.
+const refreshAheadMs = envNumber("PRICE_CACHE_REFRESH_AHEAD_MS", 0, {
+  unit: "ms",
+  whole: true,
+  allowZero: true,
+});
+if (refreshAheadMs >= PRICE_CACHE_TTL_MS) {
+  throw new Error(
+    `PRICE_CACHE_REFRESH_AHEAD_MS must be less than the ${PRICE_CACHE_TTL_MS}ms cache TTL, got ${refreshAheadMs}`,
+  );
+}
+const bookTickerCache = new PriceCache<string, BinanceBookTicker>(PRICE_CACHE_TTL_MS, refreshAheadMs);
 
-  constructor(private defaultTTL: number = PRICE_CACHE_TTL_MS) {}
+/**
+ * A provider for a Binance-compatible REST bookTicker endpoint, cached for
+ * PRICE_CACHE_TTL_MS. A request is aborted after PRICE_PROVIDER_TIMEOUT_MS.
+ */
+function restProvider(name: string, baseUrl: string): PriceProvider {
+  return {
+    name,
+    fetchBookTicker(symbol) {
+      return bookTickerCache.getOrFetch(`${name}:${symbol}`, async () => {
+        const res = await fetch(`${baseUrl}/api/v3/ticker/bookTicker?symbol=${symbol}`, {
+          signal: AbortSignal.timeout(PRICE_PROVIDER_TIMEOUT_MS),
+        });
+        if (!res.ok) {
+          throw Errors.priceFetchFailed(
+            `${name} bookTicker failed for ${symbol}: ${res.status}`,
+          );
+        }
+        return (await res.json()) as BinanceBookTicker;
+      });
+    },
+  };
+}
 
-  get(key: K): V | null {
-    const entry = this.store.get(key);
-    if (!entry) return null;
-    if (Date.now() > entry.expiresAt) {
-      this.store.delete(key);
-      return null;
-    }
-    return entry.value;
-  }
+const localBook: PriceProvider = {
+  name: marketData.name,
+  async fetchBookTicker(symbol) {
+    const book = marketData.getBook(symbol);
+    if (!book) throw new Error(`no ${marketData.name} book for ${symbol}`);
+    return book;
+  },
+};
 
-  set(key: K, value: V, ttl: number = this.defaultTTL): void {
-    this.store.set(key, { value, expiresAt: Date.now() + ttl });
-  }
+/**
+ * A provider backed by a non-Binance venue adapter, so the chain has a
+ * source that shares neither Binance's outages nor its geo-blocking.
+ * Quantities are zero when the venue doesn't report size. Its request has
+ * the same PRICE_PROVIDER_TIMEOUT_MS deadline as the REST providers.
+ */
+function venueProvider(name: string, adapter: VenueAdapter): PriceProvider {
+  return {
+    name,
+    fetchBookTicker(symbol) {
+      return bookTickerCache.getOrFetch(`${name}:${symbol}`, async () => {
+        const pair = SUPPORTED_PAIRS.find((p) => p.symbol === symbol);
+        if (!pair || !adapter.pairs.includes(symbol)) {
+          throw new Error(`${adapter.name} does not quote ${symbol}`);
+        }
+        const quote = await adapter.fetchQuote(pair, AbortSignal.timeout(PRICE_PROVIDER_TIMEOUT_MS));
+        return {
+          symbol,
+          bidPrice: fromScaled(quote.bid),
+          bidQty: fromScaled(quote.bidQty ?? 0),
+          askPrice: fromScaled(quote.ask),
+          askQty: fromScaled(quote.askQty ?? 0),
+        };
+      });
+    },
+  };
 }
 
-// Price Service fetches from Binance, caches results
-const bookTickerCache = new PriceCache<string, BinanceBookTicker>();
-const priceCache = new PriceCache<string, BinanceTickerPrice>();
+const PROVIDERS: PriceProvider[] = [
+  localBook,
+  restProvider("binance-data-api", BINANCE_BASE_URL),
+  restProvider("binance-api", BINANCE_API_URL),
+  venueProvider("coingecko", coinGecko),
+  venueProvider("massivefx", massiveFX),
+];
 
 /**
- * Fetch the best bid/ask from Binance for a given symbol.
+ * Providers in failover order, from a comma separated PRICE_PROVIDERS env
+ * var or the defaults in types.ts. A replay never falls back to live REST
+ * prices, so its chain is the local book alone.
  */
-async function fetchBookTicker(symbol: string): Promise<BinanceBookTicker> {
-  const cached = bookTickerCache.get(symbol);
-  if (cached) return cached;
+function loadPriceProviders(): PriceProvider[] {
+  if (priceSource === "replay") return [localBook];
+  const names = process.env.PRICE_PROVIDERS?.split(",").map((n) => n.trim()) ?? PRICE_PROVIDERS;
+  return names.map((name) => {
+    const provider = PROVIDERS.find((p) => p.name === name);
+    if (!provider) throw new Error(`Unknown price provider "${name}"`);
+    return provider;
+  });
+}
 
-  const res = await fetch(
-    `${BINANCE_BASE_URL}/api/v3/ticker/bookTicker?symbol=${symbol}`,
-  );
-  if (!res.ok) {
-    throw Errors.priceFetchFailed(
-      `Binance bookTicker failed for ${symbol}: ${res.status}`,
+// How old a last good book may be and still be shown, 0 disables stale prices
+const priceChain = new PriceProviderChain(
+  loadPriceProviders(),
+  envNumber("PRICE_MAX_STALENESS_MS", 0, { unit: "ms", whole: true, allowZero: true }),
+);
+
+const depthCache = new PriceCache<string, OrderBookDepth>(DEPTH_CACHE_TTL_MS);
+
+function toLevel([price, qty]: [string, string]): DepthLevel {
+  return { price: parsePrice(price), qty: parsePrice(qty) };
+}
+
+/**
+ * Fetch the top DEPTH_LEVELS of the Binance order book for a symbol.
+ */
+function fetchDepth(symbol: string): Promise<OrderBookDepth> {
+  return depthCache.getOrFetch(symbol, async () => {
+    const res = await fetch(
+      `${BINANCE_BASE_URL}/api/v3/depth?symbol=${symbol}&limit=${DEPTH_LEVELS}`,
     );
-  }
+    if (!res.ok) {
+      throw Errors.priceFetchFailed(
+        `Binance depth failed for ${symbol}: ${res.status}`,
+      );
+    }
 
-  const data: BinanceBookTicker = await res.json();
-  bookTickerCache.set(symbol, data);
-  return data;
+    const data: BinanceDepth = await res.json();
+    return { bids: data.bids.map(toLevel), asks: data.asks.map(toLevel) };
+  });
 }
 
 /**
- * Fetch the last trade price from Binance for a given symbol.
+ * Hit, miss and coalesced counts for the REST price and depth caches.
  */
-async function fetchTickerPrice(symbol: string): Promise<BinanceTickerPrice> {
-  const cached = priceCache.get(symbol);
-  if (cached) return cached;
+export function getPriceCacheStats() {
+  return { bookTicker: bookTickerCache.stats(), depth: depthCache.stats() };
+}
 
-  const res = await fetch(
-    `${BINANCE_BASE_URL}/api/v3/ticker/price?symbol=${symbol}`,
-  );
-  if (!res.ok) {
-    throw Errors.priceFetchFailed(
-      `Binance ticker/price failed for ${symbol}: ${res.status}`,
-    );
+/**
+ * Binance order book depth for a symbol, or undefined when it can't be
+ * fetched or prices are replayed. Binance is then sized against its own top
+ * of book like the other venues, so large amounts are rejected rather than
+ * priced blind, and a Binance outage leaves the other venues to price.
+ */
+async function getDepth(symbol: string): Promise<OrderBookDepth | undefined> {
+  if (priceSource !== "live") return undefined;
+  try {
+    return await fetchDepth(symbol);
+  } catch (err) {
+    console.warn(`Depth unavailable for ${symbol}, Binance quotes top of book:`, err);
+    return undefined;
   }
+}
+
+function toPriceResponse(
+  pair: SupportedPair,
+  { book, provider, stale }: ProvidedBook,
+  timestamp: number,
+): PriceResponse {
+  return {
+    pair: `${pair.base}_${pair.quote}`,
+    bidPrice: book.bidPrice,
+    askPrice: book.askPrice,
+    midPrice: (
+      (parseFloat(book.bidPrice) + parseFloat(book.askPrice)) /
+      2
+    ).toFixed(8),
+    timestamp,
+    provider,
+    ...(stale && { stale }),
+  };
+}
 
-  const data: BinanceTickerPrice = await res.json();
-  priceCache.set(symbol, data);
-  return data;
+function toBidAsk(book: BinanceBookTicker): BidAsk {
+  return { bid: parsePrice(book.bidPrice), ask: parsePrice(book.askPrice) };
 }
 
 /**
- * Find the supported pair config for a given pair string (e.g. "EUR_USDT").
+ * Find the listed pair for a given pair string (e.g. "EUR_USDT").
+ * Only matches the listed orientation; "USDT_EUR" is priced as an inversion.
  */
 function findPair(pairStr: string): SupportedPair | undefined {
   const normalized = pairStr.toUpperCase().replace(/[_\/\-]/g, "");
   return SUPPORTED_PAIRS.find(
-    (p) =>
-      p.symbol === normalized ||
-      `${p.base}${p.quote}` === normalized ||
-      `${p.quote}${p.base}` === normalized,
+    (p) => p.symbol === normalized || `${p.base}${p.quote}` === normalized,
   );
 }
 
 /**
- * Get price for a single pair.
+ * Resolve a pair string to its display name, e.g. "eurusdt" → "EUR_USDT".
  */
-export async function getPrice(pairStr: string): Promise<PriceResponse> {
+export function normalizePair(pairStr: string): string {
   const pair = findPair(pairStr);
   if (!pair) throw Errors.pairNotSupported(pairStr);
+  return `${pair.base}_${pair.quote}`;
+}
 
-  const bookTicker = await fetchBookTicker(pair.symbol);
+/**
+ * Split a pair string into currencies, e.g. "EUR_BTC" or "eurbtc".
+ */
+function parsePair(pairStr: string): { base: Currency; quote: Currency } | null {
+  const normalized = pairStr.toUpperCase().replace(/[_\/\-]/g, "");
+  for (const base of CURRENCIES) {
+    for (const quote of CURRENCIES) {
+      if (base !== quote && `${base}${quote}` === normalized) return { base, quote };
+    }
+  }
+  return null;
+}
+
+/**
+ * Markets to trade for a pair: the listed pair itself, or a route through
+ * the currency graph. A reversed listed pair (USDT_EUR) is one inverted leg,
+ * a pair with no market (EUR_BTC) is a synthetic cross.
+ */
+function resolveRoute(baseCurrency: string, quoteCurrency: string): RouteLeg[] {
+  const direct = findPair(`${baseCurrency}${quoteCurrency}`);
+  if (direct) return [{ pair: direct, inverted: false }];
+
+  const route =
+    baseCurrency === quoteCurrency
+      ? null
+      : findRoute(baseCurrency as Currency, quoteCurrency as Currency);
+  if (!route) throw Errors.pairNotSupported(`${baseCurrency}_${quoteCurrency}`);
+  return route;
+}
+
+/**
+ * Throws PAIR_NOT_SUPPORTED unless the pair is listed or reachable as a cross.
+ */
+export function validatePair(baseCurrency: string, quoteCurrency: string): void {
+  resolveRoute(baseCurrency, quoteCurrency);
+}
+
+// True when the route is the listed market traded as-is
+function isListed(route: RouteLeg[]): boolean {
+  return route.length === 1 && !route[0].inverted;
+}
+
+function legName(leg: RouteLeg): string {
+  return `${leg.pair.base}_${leg.pair.quote}`;
+}
+
+/**
+ * Get price for a single pair from the provider chain. allowStale is for
+ * display only: estimates and trigger checks that lead to a trade must get
+ * a fresh price or PRICE_FETCH_FAILED.
+ */
+export async function getPrice(pairStr: string, allowStale = false): Promise<PriceResponse> {
+  const pair = findPair(pairStr);
+  if (pair) {
+    const provided = await priceChain.getBookTicker(pair.symbol, allowStale);
+    return toPriceResponse(pair, provided, Date.now());
+  }
+
+  const parsed = parsePair(pairStr);
+  if (!parsed) throw Errors.pairNotSupported(pairStr);
+
+  // Inverted pair or synthetic cross
+  const route = resolveRoute(parsed.base, parsed.quote);
+  const provided = await Promise.all(
+    route.map((leg) => priceChain.getBookTicker(leg.pair.symbol, allowStale)),
+  );
+  const { bid, ask } = composeRoute(route, provided.map((p) => toBidAsk(p.book)));
+  const stale = provided.some((p) => p.stale);
 
   return {
-    pair: `${pair.base}_${pair.quote}`,
-    bidPrice: bookTicker.bidPrice,
-    askPrice: bookTicker.askPrice,
-    midPrice: (
-      (parseFloat(bookTicker.bidPrice) + parseFloat(bookTicker.askPrice)) /
-      2
-    ).toFixed(8),
+    pair: `${parsed.base}_${parsed.quote}`,
+    bidPrice: fromScaled(bid),
+    askPrice: fromScaled(ask),
+    midPrice: fromScaled(Math.round((bid + ask) / 2)),
     timestamp: Date.now(),
+    provider: [...new Set(provided.map((p) => p.provider))].join(","),
+    ...(stale && { stale }),
+    legs: route.map((leg, i) => ({
+      pair: legName(leg),
+      bidPrice: provided[i].book.bidPrice,
+      askPrice: provided[i].book.askPrice,
+      provider: provided[i].provider,
+    })),
   };
 }
 
 /**
- * Get prices for all supported pairs.
+ * Subscribe to every price change pushed by the market data feed.
+ * Returns an unsubscribe function.
+ */
+export function onPriceUpdate(
+  listener: (price: PriceResponse) => void,
+): () => void {
+  return marketData.onUpdate((book) => {
+    const pair = SUPPORTED_PAIRS.find((p) => p.symbol === book.symbol);
+    if (pair) {
+      listener(toPriceResponse(pair, { book, provider: marketData.name, stale: false }, book.receivedAt));
+    }
+  });
+}
+
+/**
+ * Get prices for all supported pairs, for display, so stale ones may be served.
  */
 export async function getAllPrices(): Promise<PriceResponse[]> {
-  return Promise.all(SUPPORTED_PAIRS.map((p) => getPrice(p.symbol)));
+  return Promise.all(SUPPORTED_PAIRS.map((p) => getPrice(p.symbol, true)));
 }
 
 /**
- * Get the execution price for a trade.
- * BUY → uses ask + spread markup
- * SELL → uses bid - spread markup
+ * Get the venue execution price for a trade of baseAmount, before spread.
+ * BUY → takes offers, SELL → hits bids
+ *
+ * Every leg is split across venues by routeOrder: Binance offers its order
+ * book depth when it can be fetched, the other venues their top of book.
+ * The provider chain is not used, so stale prices never reach a trade.
+ * Each leg is walked with the amount flowing through it and priced at its
+ * blended fill price.
+ * Throws INSUFFICIENT_LIQUIDITY when a leg can't be filled.
  *
- * Returns the price as a scaled integer.
+ * Inverted pairs and synthetic crosses report the legs. quoteAmount is
+ * converted through the leg prices rather than the rounded route price, so
+ * small reciprocals keep their precision. touchPrice composes the first
+ * level taken on each leg, the price a minimal order would have got.
+ * venue is the venue of the first leg's best level, and venueQuotes every
+ * venue's top of book per leg, for best-execution records.
+ * Returns scaled integers.
  */
 export async function getExecutionPrice(
   baseCurrency: string,
   quoteCurrency: string,
   side: "BUY" | "SELL",
-): Promise<{ price: number; bidPrice: number; askPrice: number }> {
-  const pairStr = `${baseCurrency}${quoteCurrency}`;
-  const pair = findPair(pairStr);
-  if (!pair) throw Errors.pairNotSupported(`${baseCurrency}_${quoteCurrency}`);
+  baseAmount: number,
+): Promise<{
+  price: number;
+  quoteAmount: number;
+  legs?: PriceLeg[];
+  levels: ConsumedLevel[];
+  fills: ChildFill[];
+  touchPrice: number;
+  venue: string;
+  venueQuotes: VenueQuote[];
+}> {
+  const route = resolveRoute(baseCurrency, quoteCurrency);
+  const depths = await Promise.all(route.map((leg) => getDepth(leg.pair.symbol)));
 
-  const bookTicker = await fetchBookTicker(pair.symbol);
-  const binanceBid = parsePrice(bookTicker.bidPrice);
-  const binanceAsk = parsePrice(bookTicker.askPrice);
-  const { price, bidPrice, askPrice } = await getBestQuote(binanceBid, binanceAsk, side);
+  const legPrices: number[] = [];
+  const legTouches: number[] = [];
+  const legSources: string[] = [];
+  const levels: ConsumedLevel[] = [];
+  const fills: ChildFill[] = [];
+  const venueQuotes: VenueQuote[] = [];
+  let amount = baseAmount; // in the currency entering the current leg
 
-  return { price, bidPrice, askPrice };
-}
+  // Legs run in order, each one's output is the next one's amount
+  for (const [i, leg] of route.entries()) {
+    const sideOnLeg = legSide(leg, side);
+    const depth = depths[i] && (sideOnLeg === "BUY" ? depths[i].asks : depths[i].bids);
+    const routed = await routeOrder(
+      leg.pair,
+      sideOnLeg,
+      amount,
+      leg.inverted ? "quote" : "base", // an inverted leg enters with the listed quote currency
+      new Map(depth ? [[binance.name, depth]] : []),
+    );
 
-/**
- * Get the mid-market price for a pair (used for market orders).
- * Returns scaled integer.
- */
-export async function getMarketPrice(
-  baseCurrency: string,
-  quoteCurrency: string,
-): Promise<number> {
-  const pairStr = `${baseCurrency}${quoteCurrency}`;
-  const pair = findPair(pairStr);
-  if (!pair) throw Errors.pairNotSupported(`${baseCurrency}_${quoteCurrency}`);
+    legPrices.push(routed.averagePrice);
+    legTouches.push(routed.levels[0].price);
+    legSources.push(routed.levels[0].venue);
+    for (const level of routed.levels) {
+      levels.push({
+        pair: legName(leg),
+        side: sideOnLeg,
+        venue: level.venue,
+        price: fromScaled(level.price),
+        qty: fromScaled(level.qty),
+      });
+    }
+    for (const fill of routed.fills) {
+      fills.push({
+        venue: fill.venue,
+        pair: legName(leg),
+        side: sideOnLeg,
+        qty: fromScaled(fill.qty),
+        price: fromScaled(fill.price),
+      });
+    }
+    for (const quote of routed.allQuotes) {
+      venueQuotes.push({
+        pair: legName(leg),
+        venue: quote.source,
+        bid: fromScaled(quote.bid),
+        ask: fromScaled(quote.ask),
+      });
+    }
+    for (const venue of routed.timedOut) {
+      venueQuotes.push({ pair: legName(leg), venue, timedOut: true });
+    }
+    amount = routed.amountOut;
+  }
+
+  if (isListed(route)) {
+    const price = legPrices[0];
+    return {
+      price,
+      quoteAmount: scaledMultiply(baseAmount, price),
+      levels,
+      fills,
+      touchPrice: legTouches[0],
+      venue: legSources[0],
+      venueQuotes,
+    };
+  }
 
-  const ticker = await fetchTickerPrice(pair.symbol);
-  return parsePrice(ticker.price);
+  return {
+    price: applyRoute(SCALE, route, legPrices),
+    quoteAmount: applyRoute(baseAmount, route, legPrices),
+    legs: route.map((leg, i) => ({
+      pair: legName(leg),
+      side: legSide(leg, side),
+      price: fromScaled(legPrices[i]),
+      source: legSources[i],
+    })),
+    levels,
+    fills,
+    touchPrice: applyRoute(SCALE, route, legTouches),
+    venue: legSources[0],
+    venueQuotes,
+  };
 }
@@ -1,12 +1,16 @@
-import { eq } from "drizzle-orm";
+import { eq, and, count, desc, gte, lt, sql } from "drizzle-orm";
 import { db } from "../db";
 import { quotes } from "../db/schema";
-import { getExecutionPrice } from "./price.service";
-import { toScaled, fromScaled, scaledMultiply } from "../money";
+import { getExecutionPrice, getPrice, validatePair } from "./price.service";
+import { applySpread } from "./spread.service";
+import { toScaled, fromScaled, parsePrice, scaledDivide, scaledDivideUp } from "../money";
 import { Errors } from "../errors";
 import {
+  QUOTE_AMOUNT_PASSES,
+  QUOTE_SWEEP_INTERVAL_MS,
   QUOTE_TTL_MS,
-  SUPPORTED_PAIRS,
+  type Pagination,
+  type QuoteListFilter,
   type QuoteResponse,
   type QuoteStatus,
   type Side,
@@ -14,22 +18,86 @@ import {
 
 // Quote Service — RFQ (Request for Quote) lifecycle
 
+type ExecutionPrice = Awaited<ReturnType<typeof getExecutionPrice>>;
+
+export interface PricedTrade {
+  baseAmount: number;  // scaled
+  quoteAmount: number; // scaled, spread included
+  price: number;       // scaled, spread included
+  spreadBps: number;
+  venue: ExecutionPrice;
+}
+
+// Venue price plus spread for baseAmount
+async function priceBase(
+  accountId: string,
+  baseCurrency: string,
+  quoteCurrency: string,
+  side: Side,
+  baseAmount: number,
+): Promise<PricedTrade> {
+  const venue = await getExecutionPrice(baseCurrency, quoteCurrency, side, baseAmount);
+  const { price, quoteAmount, spreadBps } = await applySpread(
+    accountId,
+    baseCurrency,
+    quoteCurrency,
+    side,
+    baseAmount,
+    venue,
+  );
+  return { baseAmount, quoteAmount, price, spreadBps, venue };
+}
+
 /**
- * Validate that a currency pair is supported.
+ * Price a trade of amount in amountCurrency, the base currency by default.
+ *
+ * An amount in the quote currency is kept exact and the base amount derived
+ * from the all-in price. The book is walked for an estimate from the touch
+ * and re-walked until the base amount settles, in at most QUOTE_AMOUNT_PASSES
+ * walks. The amount returned is always the last one walked, so the price
+ * and depth check belong to it. The base amount rounds in the house's
+ * favour: down when the client buys it, up when they sell it. Takes and
+ * returns scaled integers.
  */
-function validatePair(baseCurrency: string, quoteCurrency: string): void {
-  const found = SUPPORTED_PAIRS.some(
-    (p) =>
-      (p.base === baseCurrency && p.quote === quoteCurrency) ||
-      (p.quote === baseCurrency && p.base === quoteCurrency),
-  );
-  if (!found) {
-    throw Errors.pairNotSupported(`${baseCurrency}_${quoteCurrency}`);
+export async function priceTrade(
+  accountId: string,
+  baseCurrency: string,
+  quoteCurrency: string,
+  side: Side,
+  amount: number, // scaled
+  amountCurrency: string = baseCurrency,
+): Promise<PricedTrade> {
+  if (amountCurrency === baseCurrency) {
+    return priceBase(accountId, baseCurrency, quoteCurrency, side, amount);
+  }
+  if (amountCurrency !== quoteCurrency) {
+    throw Errors.validation(`amountCurrency must be ${baseCurrency} or ${quoteCurrency}`);
   }
+
+  const toBase = (price: number) =>
+    side === "BUY" ? scaledDivide(amount, price) : scaledDivideUp(amount, price);
+
+  const walk = (baseAmount: number) => {
+    if (baseAmount <= 0) throw Errors.validation("Amount is too small to trade");
+    return priceBase(accountId, baseCurrency, quoteCurrency, side, baseAmount);
+  };
+
+  const touch = await getPrice(`${baseCurrency}_${quoteCurrency}`);
+  let priced = await walk(toBase(parsePrice(side === "BUY" ? touch.askPrice : touch.bidPrice)));
+
+  for (let pass = 1; pass < QUOTE_AMOUNT_PASSES; pass++) {
+    const next = toBase(priced.price);
+    if (next === priced.baseAmount) break;
+    priced = await walk(next);
+  }
+
+  return { ...priced, quoteAmount: amount };
 }
 
 /**
- * Create a new RFQ quote with a 30-second TTL.
+ * Create a new RFQ quote with a 30-second TTL, priced at the venue
+ * execution price plus the account's spread. amount is in amountCurrency,
+ * which stays exact; see priceTrade.
  */
 export async function createQuote(
   accountId: string,
@@ -37,18 +105,21 @@ export async function createQuote(
   quoteCurrency: string,
   side: Side,
   amount: number,
+  amountCurrency: string = baseCurrency,
 ): Promise<QuoteResponse> {
   validatePair(baseCurrency, quoteCurrency);
 
-  const { price } = await getExecutionPrice(
+  const { baseAmount, quoteAmount, price, spreadBps, venue } = await priceTrade(
+    accountId,
     baseCurrency,
     quoteCurrency,
     side,
+    toScaled(amount),
+    amountCurrency,
   );
+  const { legs, levels, fills, venueQuotes } = venue;
 
   const now = Date.now();
-  const baseAmount = toScaled(amount);
-  const quoteAmount = scaledMultiply(baseAmount, price);
   const id = crypto.randomUUID();
 
   await db.insert(quotes).values({
@@ -62,6 +133,14 @@ export async function createQuote(
     price,
     expiresAt: now + QUOTE_TTL_MS,
     status: "OPEN",
+    legs,
+    levels,
+    venuePrice: venue.price,
+    spreadBps,
+    fills,
+    venue: venue.venue,
+    venueQuotes,
+    amountCurrency,
     createdAt: now,
   });
 
@@ -73,9 +152,42 @@ export async function createQuote(
     baseAmount: fromScaled(baseAmount),
     quoteAmount: fromScaled(quoteAmount),
     price: fromScaled(price),
+    amountCurrency: amountCurrency as any,
     expiresAt: now + QUOTE_TTL_MS,
     status: "OPEN",
     createdAt: now,
+    ...(legs && { legs }),
+    levels,
+    venuePrice: fromScaled(venue.price),
+    spreadBps,
+    fills,
+    venue: venue.venue,
+    venueQuotes,
+  };
+}
+
+type QuoteRow = typeof quotes.$inferSelect;
+
+function toQuoteResponse(row: QuoteRow): QuoteResponse {
+  return {
+    id: row.id,
+    baseCurrency: row.baseCurrency as any,
+    quoteCurrency: row.quoteCurrency as any,
+    side: row.side as Side,
+    baseAmount: fromScaled(row.baseAmount),
+    quoteAmount: fromScaled(row.quoteAmount),
+    price: fromScaled(row.price),
+    amountCurrency: (row.amountCurrency ?? row.baseCurrency) as any,
+    expiresAt: row.expiresAt,
+    status: row.status as QuoteStatus,
+    createdAt: row.createdAt,
+    ...(row.legs && { legs: row.legs }),
+    ...(row.levels && { levels: row.levels }),
+    ...(row.venuePrice !== null && { venuePrice: fromScaled(row.venuePrice) }),
+    ...(row.spreadBps !== null && { spreadBps: row.spreadBps }),
+    ...(row.fills && { fills: row.fills }),
+    ...(row.venue && { venue: row.venue }),
+    ...(row.venueQuotes && { venueQuotes: row.venueQuotes }),
   };
 }
 
@@ -100,18 +212,70 @@ export async function getQuote(accountId: string, quoteId: string): Promise<Quot
     row.status = "EXPIRED";
   }
 
+  return toQuoteResponse(row);
+}
+
+/**
+ * List an account's quotes, newest first, filtered by status, pair and
+ * createdAt range. Quotes past their TTL are expired first, so a status
+ * filter never sees a stale OPEN.
+ */
+export async function listQuotes(
+  accountId: string,
+  filter: QuoteListFilter,
+): Promise<{ quotes: QuoteResponse[]; pagination: Pagination }> {
+  expireQuotes();
+
+  const where = and(
+    eq(quotes.accountId, accountId),
+    filter.status !== undefined ? eq(quotes.status, filter.status) : undefined,
+    filter.baseCurrency !== undefined ? eq(quotes.baseCurrency, filter.baseCurrency) : undefined,
+    filter.quoteCurrency !== undefined ? eq(quotes.quoteCurrency, filter.quoteCurrency) : undefined,
+    filter.from !== undefined ? gte(quotes.createdAt, filter.from) : undefined,
+    filter.to !== undefined ? lt(quotes.createdAt, filter.to) : undefined,
+  );
+
+  const [{ total }] = await db.select({ total: count() }).from(quotes).where(where);
+  const rows = await db
+    .select()
+    .from(quotes)
+    .where(where)
+    .orderBy(desc(quotes.createdAt), desc(sql`rowid`))
+    .limit(filter.limit)
+    .offset(filter.offset);
+
   return {
-    id: row.id,
-    baseCurrency: row.baseCurrency as any,
-    quoteCurrency: row.quoteCurrency as any,
-    side: row.side as Side,
-    baseAmount: fromScaled(row.baseAmount),
-    quoteAmount: fromScaled(row.quoteAmount),
-    price: fromScaled(row.price),
-    expiresAt: row.expiresAt,
-    status: row.status as QuoteStatus,
-    createdAt: row.createdAt,
+    quotes: rows.map(toQuoteResponse),
+    pagination: { limit: filter.limit, offset: filter.offset, total },
+  };
+}
+
+/**
+ * Mark every OPEN quote past its TTL as EXPIRED in one update.
+ * Returns how many were expired.
+ */
+export function expireQuotes(now = Date.now()): number {
+  const result = db.update(quotes)
+    .set({ status: "EXPIRED" })
+    .where(and(eq(quotes.status, "OPEN"), lt(quotes.expiresAt, now)))
+    .run() as any;
+  return result.changes;
+}
+
+/**
+ * Sweep expired quotes every QUOTE_SWEEP_INTERVAL_MS. Returns a stop function.
+ */
+export function startQuoteSweeper(): () => void {
+  const sweep = () => {
+    try {
+      expireQuotes();
+    } catch (err) {
+      console.error("Quote sweep failed:", err);
+    }
   };
+  const timer = setInterval(sweep, QUOTE_SWEEP_INTERVAL_MS);
+  sweep();
+  return () => clearInterval(timer);
 }
 
 /**
@@ -1,77 +1,238 @@
-import {type Quote} from "../types"
+import { venueRegistry, type VenueRegistry } from "../venues";
+import { consensusMid, type VenueOutcome } from "../venues/health";
+import { scaledDivide, scaledMultiply, toScaled } from "../money";
+import { walkBook, type DepthLevel } from "../order-book";
+import { Errors } from "../errors";
+import { envNumber } from "../env";
+import {
+  TIER_MAX_NOTIONAL,
+  VENUE_BUDGET_MS as DEFAULT_VENUE_BUDGET_MS,
+  VENUE_TIMEOUT_MS as DEFAULT_VENUE_TIMEOUT_MS,
+  type Quote,
+  type Side,
+  type SupportedPair,
+} from "../types";
 
-// Simple fetch functions (binace is real and others are mocked)
-async function fetchBinance(binanceBid: number, binanceAsk: number): Promise<Quote> {
-  return {
-    source: "Binance",
-    bid: binanceBid,
-    ask: binanceAsk,
-    liquidity: "tier1",
-  };
-}
+// Quote aggregator — asks every enabled venue for the pair and splits an
+// order across them
 
-async function fetchMassiveFX(binanceBid: number, binanceAsk: number): Promise<Quote> {
-  return {
-    source: "MassiveFX",
-    bid: Math.round(binanceBid * 0.9999),
-    ask: Math.round(binanceAsk * 1.0001),
-    liquidity: "tier2",
-  };
+/**
+ * Price used to rank a quote: the side's price worsened by the venue's
+ * configured penalty. Only affects ranking, never the executed price.
+ */
+function rankingPrice(price: number, side: Side, penaltyBps: number): number {
+  return side === "BUY"
+    ? price * (1 + penaltyBps / 10_000)
+    : price * (1 - penaltyBps / 10_000);
 }
 
-async function fetchCoinGecko(binanceBid: number, binanceAsk: number): Promise<Quote> {
-  return {
-    source: "CoinGecko",
-    bid: Math.round(binanceBid * 0.9998),
-    ask: Math.round(binanceAsk * 1.0002),
-    liquidity: "tier3",
-  };
+// Overridable by the env vars of the same name
+const VENUE_TIMEOUT_MS = envNumber("VENUE_TIMEOUT_MS", DEFAULT_VENUE_TIMEOUT_MS, { unit: "ms", whole: true });
+const VENUE_BUDGET_MS = envNumber("VENUE_BUDGET_MS", DEFAULT_VENUE_BUDGET_MS, { unit: "ms", whole: true });
+
+const TIMED_OUT = Symbol("timed out");
+
+/**
+ * Runs request with a signal that aborts after ms, or when the caller's
+ * signal does, and settles with TIMED_OUT if it hasn't settled by then.
+ */
+function withDeadline<T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  ms: number,
+  signal: AbortSignal,
+): Promise<T | typeof TIMED_OUT> {
+  const controller = new AbortController();
+  let timer: Timer | undefined;
+  const abort = () => controller.abort();
+  signal.addEventListener("abort", abort);
+  const deadline = new Promise<typeof TIMED_OUT>((resolve) => {
+    timer = setTimeout(() => {
+      resolve(TIMED_OUT); // first, so the request's abort error loses the race
+      controller.abort(new DOMException("Venue deadline passed", "TimeoutError"));
+    }, ms);
+  });
+  return Promise.race([request(controller.signal), deadline]).finally(() => {
+    clearTimeout(timer);
+    signal.removeEventListener("abort", abort);
+  });
 }
 
-// Simple SOR logic
-export async function getBestQuote(
-  binanceBid: number,
-  binanceAsk: number,
-  side: "BUY" | "SELL"
-): Promise<{ price: number; bidPrice: number; askPrice: number; source: string; allQuotes: Quote[] }> {
-  
-  const results = await Promise.allSettled([
-    fetchBinance(binanceBid, binanceAsk),
-    fetchMassiveFX(binanceBid, binanceAsk),
-    fetchCoinGecko(binanceBid, binanceAsk),
-  ]);
-
-  console.log("results", JSON.stringify(results));
-
-  const quotes:Quote[] = [];
-
-  for(let i=0; i<results.length; i++){
-    if(results[i].status === "fulfilled"){
-      quotes.push((results[i] as PromiseFulfilledResult<Quote>).value);
+/**
+ * Quote every enabled, healthy venue for the pair. Each venue has its own
+ * deadline and the whole call is capped at budgetMs: venues that haven't
+ * answered by then are reported in timedOut and their requests aborted.
+ * Every venue's outcome, and its deviation from the consensus mid, goes to
+ * the registry's health tracker; venues being probed are recorded but not
+ * priced against.
+ * Throws PRICE_FETCH_FAILED if no venue quotes.
+ */
+async function collectQuotes(
+  pair: SupportedPair,
+  registry: VenueRegistry,
+  budgetMs: number,
+): Promise<{ quotes: Quote[]; penalties: Map<string, number>; timedOut: string[] }> {
+  const { health } = registry;
+  const venues = registry.forPair(pair).filter((v) => health.canQuote(v.adapter.name, pair.symbol));
+  const quotes: Quote[] = [];
+  const penalties = new Map<string, number>();
+  const timedOut: string[] = [];
+  const waiting = new Set(venues.map((v) => v.adapter.name));
+  const outcomes = new Map<string, VenueOutcome>();
+  const received = new Map<string, Quote>(); // probes included
+  const started = Date.now();
+  const outOfBudget = new AbortController();
+
+  await new Promise<void>((resolve) => {
+    if (waiting.size === 0) return resolve();
+
+    // Out of budget: whoever hasn't answered yet has timed out
+    const budget = setTimeout(() => {
+      for (const name of waiting) {
+        timedOut.push(name);
+        outcomes.set(name, { ok: false, latencyMs: budgetMs, error: "timed out" });
+      }
+      waiting.clear();
+      outOfBudget.abort(new DOMException("Venue budget spent", "TimeoutError"));
+      resolve();
+    }, budgetMs);
+
+    for (const venue of venues) {
+      const { name } = venue.adapter;
+      withDeadline(
+        (signal) => venue.adapter.fetchQuote(pair, signal),
+        venue.config.timeoutMs ?? VENUE_TIMEOUT_MS,
+        outOfBudget.signal,
+      )
+        .then(
+          (result) => {
+            if (!waiting.has(name)) return; // answered after the budget
+            const latencyMs = Date.now() - started;
+            if (result === TIMED_OUT) {
+              timedOut.push(name);
+              outcomes.set(name, { ok: false, latencyMs, error: "timed out" });
+              return;
+            }
+            outcomes.set(name, { ok: true, latencyMs });
+            received.set(name, result);
+            if (!health.isTrusted(name, pair.symbol)) return;
+            quotes.push(result);
+            penalties.set(result.source, venue.config.penaltyBps);
+          },
+          (err) => {
+            if (!waiting.has(name)) return;
+            outcomes.set(name, { ok: false, latencyMs: Date.now() - started, error: String(err) });
+            console.warn(`${name} quote failed: ${err}`);
+          },
+        )
+        .finally(() => {
+          if (waiting.delete(name) && waiting.size === 0) {
+            clearTimeout(budget);
+            resolve();
+          }
+        });
     }
-  }
+  });
 
-  console.log("quotes arr", JSON.stringify(quotes));
+  const mid = (q: Quote) => (q.bid + q.ask) / 2;
+  const consensus = consensusMid([...received.values()].map(mid));
+  for (const [name, outcome] of outcomes) {
+    const quote = received.get(name);
+    if (quote && consensus !== null) {
+      outcome.deviationBps = (Math.abs(mid(quote) - consensus) / consensus) * 10_000;
+    }
+    health.record(name, pair.symbol, outcome);
+  }
 
+  if (timedOut.length > 0) {
+    console.warn(`${pair.symbol} venues timed out: ${timedOut.join(", ")}`);
+  }
   if (quotes.length === 0) {
-    throw new Error("All pricing sources failed");
+    throw Errors.priceFetchFailed(`All pricing sources failed for ${pair.base}_${pair.quote}`);
   }
 
-  // Pick best
-  const best = quotes.sort((a, b) =>
-    side === "BUY" ? a.ask - b.ask : b.bid - a.bid
-  )[0];
+  return { quotes, penalties, timedOut };
+}
 
-  console.log("Bid", binanceBid);
-  console.log("Ask", binanceAsk);
-  console.log("side", side);
-  console.log("best quote", JSON.stringify(best));
+export interface VenueLevel extends DepthLevel {
+  venue: string;
+  rank: number; // price with the venue's penalty, for ordering only
+}
+
+/**
+ * A venue's liquidity on one side: its depth when known, otherwise its top
+ * of book for the reported size, or for its liquidity tier's notional.
+ */
+function venueLevels(quote: Quote, side: Side, depth: DepthLevel[] | undefined): DepthLevel[] {
+  if (depth) return depth;
+  const price = side === "BUY" ? quote.ask : quote.bid;
+  const qty =
+    (side === "BUY" ? quote.askQty : quote.bidQty) ??
+    scaledDivide(toScaled(TIER_MAX_NOTIONAL[quote.liquidity]), price);
+  return [{ price, qty }];
+}
+
+/**
+ * Split an order on a listed pair across venues: every venue's levels are
+ * merged by (penalised) price and walked for the amount, so the order takes
+ * the best prices wherever they sit. `depth` supplies full ladders for the
+ * venues that have them, keyed by venue name.
+ *
+ * by "base": amount is a base quantity; by "quote": quote notional.
+ * Throws INSUFFICIENT_LIQUIDITY when all venues together can't fill it.
+ * Returns scaled integers.
+ */
+export async function routeOrder(
+  pair: SupportedPair,
+  side: Side,
+  amount: number,
+  by: "base" | "quote",
+  depth: Map<string, DepthLevel[]> = new Map(),
+  registry: VenueRegistry = venueRegistry,
+  budgetMs: number = VENUE_BUDGET_MS,
+): Promise<{
+  averagePrice: number;
+  amountOut: number;
+  levels: VenueLevel[];
+  fills: { venue: string; qty: number; price: number }[];
+  allQuotes: Quote[];
+  timedOut: string[];
+}> {
+  const { quotes, penalties, timedOut } = await collectQuotes(pair, registry, budgetMs);
+
+  const book: VenueLevel[] = quotes
+    .flatMap((quote) =>
+      venueLevels(quote, side, depth.get(quote.source)).map((level) => ({
+        ...level,
+        venue: quote.source,
+        rank: rankingPrice(level.price, side, penalties.get(quote.source)!),
+      })),
+    )
+    .sort((a, b) => (side === "BUY" ? a.rank - b.rank : b.rank - a.rank));
+
+  const walk = walkBook(book, amount, by);
+  if (!walk || book.length === 0) {
+    throw Errors.insufficientLiquidity(`${pair.base}_${pair.quote}`);
+  }
+
+  // Child fills: one per venue, at the venue's volume-weighted price
+  const byVenue = new Map<string, { qty: number; notional: number }>();
+  for (const level of walk.levels) {
+    const fill = byVenue.get(level.venue) ?? { qty: 0, notional: 0 };
+    fill.qty += level.qty;
+    fill.notional += scaledMultiply(level.qty, level.price);
+    byVenue.set(level.venue, fill);
+  }
 
   return {
-    price: side === "BUY" ? best.ask : best.bid,
-    bidPrice: best.bid,
-    askPrice: best.ask,
-    source: best.source,
+    averagePrice: walk.averagePrice,
+    amountOut: walk.amountOut,
+    levels: walk.levels,
+    fills: [...byVenue].map(([venue, { qty, notional }]) => ({
+      venue,
+      qty,
+      price: qty > 0 ? scaledDivide(notional, qty) : 0,
+    })),
     allQuotes: quotes,
+    timedOut,
   };
 }
@@ -0,0 +1,65 @@
+import { and, eq, isNull, lte, or } from "drizzle-orm";
+import { db } from "../db";
+import { accounts, spreadSchedules } from "../db/schema";
+import { applyMarkup, scheduleTarget, selectSchedule } from "../spread";
+import { DEFAULT_SPREAD_BPS, type Side } from "../types";
+
+// Spread Service — markup schedules per account, pricing group, pair and notional
+
+/**
+ * Markup in bps for an account trading a pair at a notional (scaled, quote
+ * currency), both in listed orientation (see scheduleTarget). Falls back to
+ * DEFAULT_SPREAD_BPS when no schedule applies.
+ */
+export async function getSpreadBps(
+  accountId: string,
+  pair: string,
+  notional: number,
+): Promise<number> {
+  const [account] = await db
+    .select({ pricingGroup: accounts.pricingGroup })
+    .from(accounts)
+    .where(eq(accounts.id, accountId));
+
+  const candidates = await db
+    .select()
+    .from(spreadSchedules)
+    .where(
+      and(
+        or(eq(spreadSchedules.accountId, accountId), isNull(spreadSchedules.accountId)),
+        or(eq(spreadSchedules.pair, pair), isNull(spreadSchedules.pair)),
+        lte(spreadSchedules.minNotional, notional),
+      ),
+    );
+
+  const schedule = selectSchedule(candidates, {
+    accountId,
+    pricingGroup: account?.pricingGroup ?? null,
+    pair,
+    notional,
+  });
+  return schedule?.markupBps ?? DEFAULT_SPREAD_BPS;
+}
+
+/**
+ * Turn a venue price and quoteAmount into the client's, using the
+ * account's spread for the trade's notional. A reversed listed pair uses
+ * the listed pair's schedules. Returns scaled integers.
+ */
+export async function applySpread(
+  accountId: string,
+  baseCurrency: string,
+  quoteCurrency: string,
+  side: Side,
+  baseAmount: number, // scaled
+  venue: { price: number; quoteAmount: number },
+): Promise<{ price: number; quoteAmount: number; spreadBps: number }> {
+  const { pair, notional } = scheduleTarget(baseCurrency, quoteCurrency, baseAmount, venue.quoteAmount);
+  const spreadBps = await getSpreadBps(accountId, pair, notional);
+
+  return {
+    price: applyMarkup(venue.price, side, spreadBps),
+    quoteAmount: applyMarkup(venue.quoteAmount, side, spreadBps),
+    spreadBps,
+  };
+}
@@ -0,0 +1,169 @@
+import type { ServerWebSocket } from "bun";
+import { getPrice, normalizePair, onPriceUpdate } from "./price.service";
+import { AppError } from "../errors";
+import { FrameConflator } from "../conflation";
+import {
+  STREAM_HEARTBEAT_MS,
+  type PriceResponse,
+  type StreamClientMessage,
+  type StreamServerMessage,
+} from "../types";
+
+// Price Stream Service — pushes book ticker changes to websocket subscribers
+
+export interface StreamSocketData {
+  pairs: Set<string>;           // subscribed pairs, e.g. "EUR_USDT"
+  pending: FrameConflator;      // latest unsent price frame per pair while backpressured
+}
+
+type StreamSocket = ServerWebSocket<StreamSocketData>;
+
+const sockets = new Set<StreamSocket>();
+const subscribers = new Map<string, Set<StreamSocket>>();
+const lastPrices = new Map<string, PriceResponse>();
+
+let heartbeatTimer: Timer | null = null;
+let stopPriceUpdates: (() => void) | null = null;
+
+export function createSocketData(): StreamSocketData {
+  return { pairs: new Set(), pending: new FrameConflator() };
+}
+
+function send(ws: StreamSocket, message: StreamServerMessage): void {
+  ws.send(JSON.stringify(message));
+}
+
+export function sendError(ws: StreamSocket, err: AppError): void {
+  send(ws, { type: "error", ...err.toJSON() });
+}
+
+/**
+ * Push a price frame to one socket.
+ * While the socket is backpressured only the latest frame per pair is kept,
+ * so a slow client skips stale prices instead of queueing them.
+ */
+function pushPrice(ws: StreamSocket, price: PriceResponse): void {
+  const frame = JSON.stringify({ type: "price", data: price } satisfies StreamServerMessage);
+  ws.data.pending.push(ws, price.pair, frame);
+}
+
+/**
+ * Fan a price change out to the pair's subscribers, skipping ticks where
+ * only the quantities moved.
+ */
+function publish(price: PriceResponse): void {
+  const subs = subscribers.get(price.pair);
+  if (!subs) return;
+
+  const last = lastPrices.get(price.pair);
+  if (last && last.bidPrice === price.bidPrice && last.askPrice === price.askPrice) {
+    return;
+  }
+  lastPrices.set(price.pair, price);
+
+  for (const ws of subs) {
+    pushPrice(ws, price);
+  }
+}
+
+function heartbeat(): void {
+  const message: StreamServerMessage = { type: "heartbeat", timestamp: Date.now() };
+  for (const ws of sockets) {
+    if (!ws.data.pending.isBackpressured(ws)) send(ws, message);
+  }
+}
+
+// Feed listener and heartbeat only run while someone is connected
+function start(): void {
+  stopPriceUpdates ??= onPriceUpdate(publish);
+  heartbeatTimer ??= setInterval(heartbeat, STREAM_HEARTBEAT_MS);
+}
+
+function stop(): void {
+  stopPriceUpdates?.();
+  if (heartbeatTimer) clearInterval(heartbeatTimer);
+  stopPriceUpdates = null;
+  heartbeatTimer = null;
+}
+
+function removeSubscription(ws: StreamSocket, pair: string): void {
+  ws.data.pairs.delete(pair);
+  ws.data.pending.drop(pair);
+
+  const subs = subscribers.get(pair);
+  if (!subs) return;
+  subs.delete(ws);
+  if (subs.size === 0) {
+    subscribers.delete(pair);
+    lastPrices.delete(pair);
+  }
+}
+
+async function subscribe(ws: StreamSocket, requested: string[]): Promise<void> {
+  const pairs = [...new Set(requested.map(normalizePair))];
+
+  for (const pair of pairs) {
+    ws.data.pairs.add(pair);
+    if (!subscribers.has(pair)) subscribers.set(pair, new Set());
+    subscribers.get(pair)!.add(ws);
+  }
+  send(ws, { type: "subscribed", pairs });
+
+  // Snapshot so the client has a price before the next change
+  for (const pair of pairs) {
+    try {
+      const price = await getPrice(pair, true);
+      if (!ws.data.pairs.has(pair)) continue; // unsubscribed or closed meanwhile
+      if (!lastPrices.has(pair)) lastPrices.set(pair, price);
+      pushPrice(ws, price);
+    } catch (err) {
+      if (err instanceof AppError) sendError(ws, err);
+    }
+  }
+}
+
+function unsubscribe(ws: StreamSocket, requested: string[]): void {
+  const pairs = [...new Set(requested.map(normalizePair))];
+  for (const pair of pairs) {
+    removeSubscription(ws, pair);
+  }
+  send(ws, { type: "unsubscribed", pairs });
+}
+
+/**
+ * Handle a parsed client message.
+ * Throws PAIR_NOT_SUPPORTED before changing any subscription.
+ */
+export async function handleMessage(
+  ws: StreamSocket,
+  message: StreamClientMessage,
+): Promise<void> {
+  switch (message.type) {
+    case "subscribe":
+      return subscribe(ws, message.pairs);
+    case "unsubscribe":
+      return unsubscribe(ws, message.pairs);
+    case "ping":
+      return send(ws, { type: "pong", timestamp: Date.now() });
+  }
+}
+
+export function openStream(ws: StreamSocket): void {
+  sockets.add(ws);
+  start();
+}
+
+export function closeStream(ws: StreamSocket): void {
+  for (const pair of [...ws.data.pairs]) {
+    removeSubscription(ws, pair);
+  }
+  sockets.delete(ws);
+  if (sockets.size === 0) stop();
+}
+
+/**
+ * Flush conflated frames once the socket has room again.
+ */
+export function drainStream(ws: StreamSocket): void {
+  ws.data.pending.drain(ws);
+}
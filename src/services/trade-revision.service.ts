@@ -0,0 +1,130 @@
+import { eq, and } from "drizzle-orm";
+import { db, sqlite } from "../db";
+import { trades } from "../db/schema";
+import * as balanceService from "./balance.service";
+import { chargeFee, feeFor, refundFee, type Fee } from "./fee.service";
+import { getTrade } from "./trade.service";
+import { toScaled, scaledMultiply } from "../money";
+import { Errors } from "../errors";
+import type { CorrectTradeRequest, TradeResponse, TradeStatus } from "../types";
+
+// Trade Revision Service — ops cancels and corrections of executed trades,
+// posted as compensating balance movements. Nothing is deleted: the original
+// keeps its row and is linked to its correction.
+
+type TradeRow = typeof trades.$inferSelect;
+type Booked = Pick<TradeRow, "side" | "baseCurrency" | "quoteCurrency" | "baseAmount" | "quoteAmount">;
+
+// Add what a trade moved on the account to a per-currency net, sign = +1 to
+// book it and -1 to reverse it
+function addMovements(net: Map<string, number>, trade: Booked, sign: 1 | -1): void {
+  const base = trade.side === "BUY" ? trade.baseAmount : -trade.baseAmount;
+  const quote = trade.side === "BUY" ? -trade.quoteAmount : trade.quoteAmount;
+  net.set(trade.baseCurrency, (net.get(trade.baseCurrency) ?? 0) + sign * base);
+  net.set(trade.quoteCurrency, (net.get(trade.quoteCurrency) ?? 0) + sign * quote);
+}
+
+/**
+ * Mark the trade CANCELLED or CORRECTED, book the replacement if there is
+ * one, and post the net balance change, all in one transaction. Credits go
+ * first so a correction only needs the balance for its net debit. The
+ * original's fee is refunded and the replacement is charged its own.
+ */
+const reviseTradeTx = sqlite.transaction(
+  (
+    trade: TradeRow,
+    status: Exclude<TradeStatus, "EXECUTED">,
+    reason: string,
+    replacement: TradeRow | null,
+    now: number,
+  ) => {
+    const result = db.update(trades)
+      .set({ status, replacedBy: replacement?.id ?? null, reason, revisedAt: now })
+      .where(and(eq(trades.id, trade.id), eq(trades.status, "EXECUTED")))
+      .run() as any;
+    if (result.changes === 0) {
+      const [current] = db.select({ status: trades.status }).from(trades).where(eq(trades.id, trade.id)).all();
+      throw Errors.tradeAlreadyRevised(current.status);
+    }
+
+    refundFee(
+      trade.accountId, trade.id,
+      { amount: trade.feeAmount, currency: trade.feeCurrency ?? trade.quoteCurrency }, now,
+    );
+
+    const net = new Map<string, number>();
+    addMovements(net, trade, -1);
+    let fee: Fee | null = null;
+    if (replacement) {
+      fee = feeFor(
+        trade.accountId, replacement.baseCurrency, replacement.quoteCurrency,
+        replacement.baseAmount, replacement.quoteAmount,
+      );
+      db.insert(trades).values({ ...replacement, feeAmount: fee.amount, feeCurrency: fee.currency }).run();
+      addMovements(net, replacement, 1);
+    }
+
+    for (const [currency, amount] of net) {
+      if (amount > 0) balanceService.credit(trade.accountId, currency, amount);
+    }
+    for (const [currency, amount] of net) {
+      if (amount < 0) balanceService.debit(trade.accountId, currency, -amount);
+    }
+    if (replacement && fee) chargeFee(trade.accountId, replacement.id, fee, now);
+  },
+);
+
+async function findExecuted(tradeId: string): Promise<TradeRow> {
+  const [trade] = await db.select().from(trades).where(eq(trades.id, tradeId));
+  if (!trade) throw Errors.notFound("Trade");
+  if (trade.status !== "EXECUTED") throw Errors.tradeAlreadyRevised(trade.status);
+  return trade;
+}
+
+/**
+ * Reverse an executed trade: give back what it debited and its fee, take
+ * back what it credited, and mark it CANCELLED. Throws INSUFFICIENT_BALANCE
+ * if the credited currency has since been spent.
+ */
+export async function cancelTrade(tradeId: string, reason: string): Promise<TradeResponse> {
+  const trade = await findExecuted(tradeId);
+  reviseTradeTx(trade, "CANCELLED", reason, null, Date.now());
+  return getTrade(trade.accountId, trade.id);
+}
+
+/**
+ * Replace an executed trade with a corrected one. The original is marked
+ * CORRECTED with replacedBy set, and the replacement, which keeps the
+ * original's execution time and links, carries replaces. Only the
+ * difference between the two is posted to balances. Returns the replacement.
+ */
+export async function correctTrade(
+  tradeId: string,
+  correction: CorrectTradeRequest,
+): Promise<TradeResponse> {
+  const trade = await findExecuted(tradeId);
+  const baseAmount = correction.baseAmount !== undefined ? toScaled(correction.baseAmount) : trade.baseAmount;
+  const price = correction.price !== undefined ? toScaled(correction.price) : trade.price;
+  const quoteAmount = correction.quoteAmount !== undefined
+    ? toScaled(correction.quoteAmount)
+    : correction.baseAmount !== undefined || correction.price !== undefined
+      ? scaledMultiply(baseAmount, price)
+      : trade.quoteAmount;
+
+  const now = Date.now();
+  const replacement: TradeRow = {
+    ...trade,
+    id: crypto.randomUUID(),
+    baseAmount,
+    quoteAmount,
+    price,
+    status: "EXECUTED",
+    replacedBy: null,
+    replaces: trade.id,
+    reason: correction.reason,
+    revisedAt: null,
+    createdAt: now,
+  };
+  reviseTradeTx(trade, "CORRECTED", correction.reason, replacement, now);
+  return getTrade(trade.accountId, replacement.id);
+}
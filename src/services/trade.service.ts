@@ -1,24 +1,52 @@
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, sql } from "drizzle-orm";
 import { db, sqlite } from "../db";
-import { quotes, trades } from "../db/schema";
+import { orders, quotes, trades } from "../db/schema";
 import * as balanceService from "./balance.service";
-import { getMarketPrice } from "./price.service";
-import { toScaled, fromScaled, scaledMultiply } from "../money";
+import { chargeFee, feeFor, type Fee } from "./fee.service";
+import { checkQuote } from "./last-look.service";
+import { transition } from "./order-event.service";
+import { getExecutionPrice, validatePair } from "./price.service";
+import { priceTrade } from "./quote.service";
+import { applySpread } from "./spread.service";
+import { toScaled, fromScaled } from "../money";
 import { Errors } from "../errors";
-import { SUPPORTED_PAIRS, type Side, type TradeResponse } from "../types";
+import type {
+  ChildFill,
+  ConversionLeg,
+  MarketTradeRequest,
+  MultiLegTradeResponse,
+  PriceLeg,
+  Side,
+  TradeResponse,
+  TradeStatus,
+  TradeType,
+  VenueQuote,
+} from "../types";
 
 // Trade Service executes market orders and RFQ trades
 
+// How a trade was priced: the route, venue split and best-execution evidence
+interface Execution {
+  legs: PriceLeg[] | null;
+  fills: ChildFill[] | null;
+  venue: string | null;
+  venueQuotes: VenueQuote[] | null;
+}
+
 /**
  * Execute an RFQ trade using a previously obtained quote.
  *
  * Flow: validate quote → check not expired → check not already executed →
- *       check balance → debit sell currency → credit buy currency →
- *       mark quote executed → create trade record
+ *       last look → check balance → debit sell currency →
+ *       credit buy currency → mark quote executed → create trade record
+ *
+ * The last look rejects with QUOTE_REPRICED when the market has moved too
+ * far against the house; with requote, the error carries a fresh quote.
  */
 export async function executeRfqTrade(
   accountId: string,
   quoteId: string,
+  requote = false,
 ): Promise<TradeResponse> {
   // Fetch and validate quote
   const [quoteRow] = await db
@@ -41,20 +69,61 @@ export async function executeRfqTrade(
     throw Errors.quoteExpired();
   }
 
+  await checkQuote(quoteRow, requote);
+
   return executeTrade(
     accountId,
     quoteRow.baseCurrency,
     quoteRow.quoteCurrency,
     quoteRow.side as Side,
     quoteRow.baseAmount,
+    quoteRow.quoteAmount,
     quoteRow.price,
     "RFQ",
     quoteId,
+    null,
+    {
+      legs: quoteRow.legs,
+      fills: quoteRow.fills,
+      venue: quoteRow.venue,
+      venueQuotes: quoteRow.venueQuotes,
+    },
   );
 }
 
+type PriceProtection = Pick<MarketTradeRequest, "maxSlippageBps" | "limitPrice">;
+
+/**
+ * Reject a fill worse than the client allows. Slippage compares the venue
+ * price with the touch, before spread; the limit compares the client price.
+ */
+function checkPriceProtection(
+  side: Side,
+  venuePrice: number,  // scaled
+  touchPrice: number,  // scaled
+  clientPrice: number, // scaled
+  { maxSlippageBps, limitPrice }: PriceProtection,
+): void {
+  if (maxSlippageBps !== undefined) {
+    const adverse = side === "BUY" ? venuePrice - touchPrice : touchPrice - venuePrice;
+    const bps = (adverse * 10_000) / touchPrice;
+    if (bps > maxSlippageBps) throw Errors.slippageExceeded(bps.toFixed(2), maxSlippageBps);
+  }
+
+  if (limitPrice !== undefined) {
+    const limit = toScaled(limitPrice);
+    if (side === "BUY" ? clientPrice > limit : clientPrice < limit) {
+      throw Errors.limitPriceBreached(fromScaled(clientPrice), fromScaled(limit), side);
+    }
+  }
+}
+
 /**
- * Execute a market order at the current Binance price.
+ * Execute a market order at the venue execution price for its side, split
+ * across venues like an RFQ, plus the account's spread. Rejected before
+ * any balance moves if it breaches maxSlippageBps or limitPrice. orderId
+ * links the trade to the conditional order that triggered it. amount is in
+ * amountCurrency, which stays exact; see priceTrade.
  */
 export async function executeMarketTrade(
   accountId: string,
@@ -62,19 +131,21 @@ export async function executeMarketTrade(
   quoteCurrency: string,
   side: Side,
   amount: number, // human-readable decimal
+  protection: PriceProtection = {},
+  orderId: string | null = null,
+  amountCurrency: string = baseCurrency,
 ): Promise<TradeResponse> {
-  // Validate pair
-  const found = SUPPORTED_PAIRS.some(
-    (p) =>
-      (p.base === baseCurrency && p.quote === quoteCurrency) ||
-      (p.quote === baseCurrency && p.base === quoteCurrency),
-  );
-  if (!found) {
-    throw Errors.pairNotSupported(`${baseCurrency}_${quoteCurrency}`);
-  }
+  validatePair(baseCurrency, quoteCurrency);
 
-  const price = await getMarketPrice(baseCurrency, quoteCurrency);
-  const baseAmount = toScaled(amount);
+  const { baseAmount, quoteAmount, price, venue: market } = await priceTrade(
+    accountId,
+    baseCurrency,
+    quoteCurrency,
+    side,
+    toScaled(amount),
+    amountCurrency,
+  );
+  checkPriceProtection(side, market.price, market.touchPrice, price, protection);
 
   return executeTrade(
     accountId,
@@ -82,44 +153,140 @@ export async function executeMarketTrade(
     quoteCurrency,
     side,
     baseAmount,
+    quoteAmount,
     price,
     "MARKET",
     null,
+    orderId,
+    {
+      legs: market.legs ?? null,
+      fills: market.fills,
+      venue: market.venue,
+      venueQuotes: market.venueQuotes,
+    },
+  );
+}
+
+type RestingOrder = typeof orders.$inferSelect;
+
+/**
+ * Fill a resting limit order if the venue price for its side, spread
+ * included, is at or inside its limit. Returns null when it doesn't cross,
+ * or the order stopped being NEW while it was priced.
+ */
+export async function executeLimitOrder(order: RestingOrder): Promise<TradeResponse | null> {
+  const side = order.side as Side;
+  const market = await getExecutionPrice(
+    order.baseCurrency,
+    order.quoteCurrency,
+    side,
+    order.baseAmount,
   );
+  const { price, quoteAmount } = await applySpread(
+    order.accountId,
+    order.baseCurrency,
+    order.quoteCurrency,
+    side,
+    order.baseAmount,
+    market,
+  );
+  const limit = order.limitPrice!;
+  if (side === "BUY" ? price > limit : price < limit) return null;
+
+  const now = Date.now();
+  const tradeId = crypto.randomUUID();
+  const execution: Execution = {
+    legs: market.legs ?? null,
+    fills: market.fills,
+    venue: market.venue,
+    venueQuotes: market.venueQuotes,
+  };
+  const fee = fillOrderTx(order, quoteAmount, price, execution, tradeId, now);
+  if (!fee) return null;
+
+  return toTradeResponse({
+    id: tradeId,
+    type: "LIMIT",
+    baseCurrency: order.baseCurrency,
+    quoteCurrency: order.quoteCurrency,
+    side,
+    baseAmount: order.baseAmount,
+    quoteAmount,
+    price,
+    executedAt: now,
+    createdAt: now,
+    ...execution,
+    orderId: order.id,
+    parentId: null,
+    feeAmount: fee.amount,
+    feeCurrency: fee.currency,
+  });
 }
 
+/**
+ * Mark the order FILLED, release its reservation and book the trade in one
+ * transaction. Returns the fee charged, or null, changing nothing, if a
+ * cancel, amend or expiry got to the order first.
+ */
+const fillOrderTx = sqlite.transaction(
+  (
+    order: RestingOrder,
+    quoteAmount: number,
+    price: number,
+    execution: Execution,
+    tradeId: string,
+    now: number,
+  ): Fee | null => {
+    if (!transition(order, "FILLED", now, { tradeId }, { tradeId })) return null;
+
+    balanceService.release(order.accountId, order.reservedCurrency, order.reservedAmount);
+    return executeTradeTx(
+      order.accountId, order.baseCurrency, order.quoteCurrency, order.side as Side,
+      order.baseAmount, quoteAmount, price, "LIMIT", null, order.id,
+      execution, tradeId, now,
+    );
+  },
+);
+
 async function executeTrade(
   accountId: string,
   baseCurrency: string,
   quoteCurrency: string,
   side: Side,
   baseAmount: number,   // scaled
+  quoteAmount: number,  // scaled
   price: number,        // scaled
   type: "MARKET" | "RFQ",
   quoteId: string | null,
+  orderId: string | null,
+  execution: Execution,
 ): Promise<TradeResponse> {
-  const quoteAmount = scaledMultiply(baseAmount, price);
   const now = Date.now();
   const tradeId = crypto.randomUUID();
 
-  executeTradeTx(
+  const fee = executeTradeTx(
     accountId, baseCurrency, quoteCurrency, side,
-    baseAmount, quoteAmount, price, type, quoteId,
-    tradeId, now,
+    baseAmount, quoteAmount, price, type, quoteId, orderId,
+    execution, tradeId, now,
   );
 
-  return {
+  return toTradeResponse({
     id: tradeId,
     type,
-    baseCurrency: baseCurrency as any,
-    quoteCurrency: quoteCurrency as any,
+    orderId,
+    baseCurrency,
+    quoteCurrency,
     side,
-    baseAmount: fromScaled(baseAmount),
-    quoteAmount: fromScaled(quoteAmount),
-    price: fromScaled(price),
+    baseAmount,
+    quoteAmount,
+    price,
     executedAt: now,
     createdAt: now,
-  };
+    ...execution,
+    parentId: null,
+    feeAmount: fee.amount,
+    feeCurrency: fee.currency,
+  });
 }
 
 /**
@@ -127,6 +294,8 @@ async function executeTrade(
  *
  * BUY side:  debit quoteCurrency (pay),  credit baseCurrency (receive)
  * SELL side: debit baseCurrency (pay),   credit quoteCurrency (receive)
+ * Then the fee from the account's fee schedule is charged on top and
+ * credited to the house fee account. Returns the fee.
  *
  * All operations use Drizzle's .run() (synchronous in bun:sqlite).
  * sqlite.transaction() auto-rolls-back on any thrown error.
@@ -140,11 +309,15 @@ const executeTradeTx = sqlite.transaction(
     baseAmount: number,
     quoteAmount: number,
     price: number,
-    type: "MARKET" | "RFQ",
+    type: TradeType,
     quoteId: string | null,
+    orderId: string | null,
+    execution: Execution,
     tradeId: string,
     now: number,
-  ) => {
+    parentId: string | null = null,
+    fee: Fee = feeFor(accountId, baseCurrency, quoteCurrency, baseAmount, quoteAmount),
+  ): Fee => {
     const debitCurrency = side === "BUY" ? quoteCurrency : baseCurrency;
     const debitAmount = side === "BUY" ? quoteAmount : baseAmount;
     const creditCurrency = side === "BUY" ? baseCurrency : quoteCurrency;
@@ -164,7 +337,9 @@ const executeTradeTx = sqlite.transaction(
         .run() as any;
       
       if (result.changes === 0) {
-        throw Errors.quoteAlreadyExecuted();
+        // The sweeper may have expired it since it was checked
+        const [row] = db.select({ status: quotes.status }).from(quotes).where(eq(quotes.id, quoteId)).all();
+        throw row?.status === "EXPIRED" ? Errors.quoteExpired() : Errors.quoteAlreadyExecuted();
       }
     }
 
@@ -181,28 +356,163 @@ const executeTradeTx = sqlite.transaction(
         baseAmount,
         quoteAmount,
         price,
+        ...execution,
+        orderId,
+        parentId,
+        feeAmount: fee.amount,
+        feeCurrency: fee.currency,
         executedAt: now,
         createdAt: now,
       })
       .run();
+
+    // Fee after the trade is booked, so it can come out of the proceeds
+    chargeFee(accountId, tradeId, fee, now);
+    return fee;
   },
 );
 
+// A conversion leg priced and ready to book
+interface PricedLeg {
+  baseCurrency: string;
+  quoteCurrency: string;
+  side: Side;
+  baseAmount: number;  // scaled
+  quoteAmount: number; // scaled
+  price: number;       // scaled
+  execution: Execution;
+  fee: Fee;
+}
+
+// What a leg pays and receives: currency and scaled amount, the receiving
+// side net of a fee charged in that currency
+function debitOf(leg: PricedLeg) {
+  return leg.side === "BUY"
+    ? { currency: leg.quoteCurrency, amount: leg.quoteAmount }
+    : { currency: leg.baseCurrency, amount: leg.baseAmount };
+}
+
+function creditOf(leg: PricedLeg) {
+  const credit = leg.side === "BUY"
+    ? { currency: leg.baseCurrency, amount: leg.baseAmount }
+    : { currency: leg.quoteCurrency, amount: leg.quoteAmount };
+  if (leg.fee.currency === credit.currency) credit.amount -= leg.fee.amount;
+  return credit;
+}
+
 /**
- * Get trade history for an account.
+ * Book every leg of a conversion in one transaction, so a leg that fails,
+ * e.g. on balance, rolls back the legs before it.
  */
-export async function getTradeHistory(
+const executeLegsTx = sqlite.transaction(
+  (accountId: string, legs: PricedLeg[], parentId: string, tradeIds: string[], now: number) => {
+    for (const [i, leg] of legs.entries()) {
+      executeTradeTx(
+        accountId, leg.baseCurrency, leg.quoteCurrency, leg.side,
+        leg.baseAmount, leg.quoteAmount, leg.price, "MARKET", null, null,
+        leg.execution, tradeIds[i], now, parentId, leg.fee,
+      );
+    }
+  },
+);
+
+/**
+ * Execute a multi-leg conversion, e.g. EUR → USDT → BTC, all-or-nothing.
+ * Every leg is priced first, in order, like a market trade with its own
+ * price protection; then all of them are booked in one transaction. A leg
+ * without an amount spends exactly what the previous leg received, less
+ * any fee taken in that currency. The legs' trades share a parentId.
+ */
+export async function executeMultiLegTrade(
   accountId: string,
-): Promise<TradeResponse[]> {
-  const rows = await db
-    .select()
-    .from(trades)
-    .where(eq(trades.accountId, accountId))
-    .orderBy(desc(trades.executedAt));
+  legs: ConversionLeg[],
+): Promise<MultiLegTradeResponse> {
+  const priced: PricedLeg[] = [];
+
+  for (const [i, leg] of legs.entries()) {
+    validatePair(leg.baseCurrency, leg.quoteCurrency);
+    let amount = leg.amount === undefined ? undefined : toScaled(leg.amount);
+    let { amountCurrency } = leg;
+
+    if (amount === undefined) {
+      if (i === 0) throw Errors.validation("The first leg needs an amount");
+      const received = creditOf(priced[i - 1]);
+      const spends = leg.side === "BUY" ? leg.quoteCurrency : leg.baseCurrency;
+      if (spends !== received.currency || (amountCurrency !== undefined && amountCurrency !== spends)) {
+        throw Errors.validation(
+          `Leg ${i + 1} has no amount, so it must spend the ${received.currency} leg ${i} receives`,
+        );
+      }
+      if (received.amount <= 0) throw Errors.validation(`Leg ${i}'s fee leaves nothing to spend`);
+      amount = received.amount;
+      amountCurrency = spends;
+    }
+
+    const { baseAmount, quoteAmount, price, venue: market } = await priceTrade(
+      accountId,
+      leg.baseCurrency,
+      leg.quoteCurrency,
+      leg.side,
+      amount,
+      amountCurrency,
+    );
+    checkPriceProtection(leg.side, market.price, market.touchPrice, price, leg);
+
+    priced.push({
+      baseCurrency: leg.baseCurrency,
+      quoteCurrency: leg.quoteCurrency,
+      side: leg.side,
+      baseAmount,
+      quoteAmount,
+      price,
+      execution: {
+        legs: market.legs ?? null,
+        fills: market.fills,
+        venue: market.venue,
+        venueQuotes: market.venueQuotes,
+      },
+      fee: feeFor(accountId, leg.baseCurrency, leg.quoteCurrency, baseAmount, quoteAmount),
+    });
+  }
+
+  const parentId = crypto.randomUUID();
+  const tradeIds = priced.map(() => crypto.randomUUID());
+  const now = Date.now();
+  executeLegsTx(accountId, priced, parentId, tradeIds, now);
+
+  return {
+    parentId,
+    trades: priced.map((leg, i) =>
+      toTradeResponse({
+        id: tradeIds[i],
+        type: "MARKET",
+        orderId: null,
+        parentId,
+        baseCurrency: leg.baseCurrency,
+        quoteCurrency: leg.quoteCurrency,
+        side: leg.side,
+        baseAmount: leg.baseAmount,
+        quoteAmount: leg.quoteAmount,
+        price: leg.price,
+        executedAt: now,
+        createdAt: now,
+        ...leg.execution,
+        feeAmount: leg.fee.amount,
+        feeCurrency: leg.fee.currency,
+      }),
+    ),
+  };
+}
 
-  return rows.map((row) => ({
+// Revision fields are left out of trades that were just booked
+type Revision = "status" | "replacedBy" | "replaces" | "reason" | "revisedAt";
+type TradeRow = Omit<typeof trades.$inferSelect, "accountId" | "quoteId" | Revision> &
+  Partial<Pick<typeof trades.$inferSelect, Revision>>;
+
+function toTradeResponse(row: TradeRow): TradeResponse {
+  return {
     id: row.id,
-    type: row.type as "MARKET" | "RFQ",
+    type: row.type as TradeType,
     baseCurrency: row.baseCurrency as any,
     quoteCurrency: row.quoteCurrency as any,
     side: row.side as Side,
@@ -211,7 +521,42 @@ export async function getTradeHistory(
     price: fromScaled(row.price),
     executedAt: row.executedAt,
     createdAt: row.createdAt,
-  }));
+    ...(row.legs && { legs: row.legs }),
+    ...(row.fills && { fills: row.fills }),
+    ...(row.venue && { venue: row.venue }),
+    ...(row.venueQuotes && { venueQuotes: row.venueQuotes }),
+    ...(row.orderId && { orderId: row.orderId }),
+    ...(row.parentId && { parentId: row.parentId }),
+    status: (row.status ?? "EXECUTED") as TradeStatus,
+    ...(row.replacedBy && { replacedBy: row.replacedBy }),
+    ...(row.replaces && { replaces: row.replaces }),
+    ...(row.reason && { reason: row.reason }),
+    ...(row.revisedAt != null && { revisedAt: row.revisedAt }),
+    fee: fromScaled(row.feeAmount),
+    feeCurrency: (row.feeCurrency ?? row.quoteCurrency) as any,
+  };
+}
+
+/**
+ * Get trade history for an account, optionally one conversion's legs.
+ * Cancelled and corrected trades stay in it, linked to their corrections.
+ */
+export async function getTradeHistory(
+  accountId: string,
+  filter: { parentId?: string } = {},
+): Promise<TradeResponse[]> {
+  const rows = await db
+    .select()
+    .from(trades)
+    .where(
+      and(
+        eq(trades.accountId, accountId),
+        filter.parentId !== undefined ? eq(trades.parentId, filter.parentId) : undefined,
+      ),
+    )
+    .orderBy(desc(trades.executedAt), desc(sql`rowid`));
+
+  return rows.map(toTradeResponse);
 }
 
 /**
@@ -230,16 +575,5 @@ export async function getTrade(
     throw Errors.notFound("Trade");
   }
 
-  return {
-    id: row.id,
-    type: row.type as "MARKET" | "RFQ",
-    baseCurrency: row.baseCurrency as any,
-    quoteCurrency: row.quoteCurrency as any,
-    side: row.side as Side,
-    baseAmount: fromScaled(row.baseAmount),
-    quoteAmount: fromScaled(row.quoteAmount),
-    price: fromScaled(row.price),
-    executedAt: row.executedAt,
-    createdAt: row.createdAt,
-  };
+  return toTradeResponse(row);
 }
@@ -0,0 +1,91 @@
+import { scaledMultiply } from "./money";
+import { SUPPORTED_PAIRS, type Side, type SupportedPair } from "./types";
+
+// Spread schedules — picking a markup tier and applying it to a price
+
+export interface SpreadSchedule {
+  accountId: string | null;    // null = not account specific
+  pricingGroup: string | null; // null with no account = everyone
+  pair: string | null;         // e.g. "EUR_USDT", null = every pair
+  minNotional: number;         // scaled, in the pair's quote currency
+  markupBps: number;
+}
+
+export interface SpreadTarget {
+  accountId: string;
+  pricingGroup: string | null;
+  pair: string;     // in listed orientation, see scheduleTarget
+  notional: number; // scaled, in the pair's quote currency
+}
+
+/**
+ * The pair and notional a trade looks schedules up with. Schedules are
+ * written against listed pairs, so a trade on a reversed listed pair
+ * (USDT_EUR) is looked up as the listed one (EUR_USDT), with the notional in
+ * that pair's quote currency: the trade's base amount. Other pairs are used
+ * as given. Amounts are scaled.
+ */
+export function scheduleTarget(
+  baseCurrency: string,
+  quoteCurrency: string,
+  baseAmount: number,
+  quoteAmount: number,
+  listed: SupportedPair[] = SUPPORTED_PAIRS,
+): Pick<SpreadTarget, "pair" | "notional"> {
+  const reversed = listed.some((p) => p.base === quoteCurrency && p.quote === baseCurrency);
+  return reversed
+    ? { pair: `${quoteCurrency}_${baseCurrency}`, notional: baseAmount }
+    : { pair: `${baseCurrency}_${quoteCurrency}`, notional: quoteAmount };
+}
+
+// Higher is more specific, -1 when the schedule doesn't apply
+function specificity(schedule: SpreadSchedule, target: SpreadTarget): number {
+  if (schedule.minNotional > target.notional) return -1;
+  if (schedule.pair !== null && schedule.pair !== target.pair) return -1;
+
+  let owner = 0;
+  if (schedule.accountId !== null) {
+    if (schedule.accountId !== target.accountId) return -1;
+    owner = 2;
+  } else if (schedule.pricingGroup !== null) {
+    if (schedule.pricingGroup !== target.pricingGroup) return -1;
+    owner = 1;
+  }
+  return owner * 2 + (schedule.pair !== null ? 1 : 0);
+}
+
+/**
+ * Pick the schedule for a trade, or null if none applies.
+ * An account's own schedules beat its group's, which beat the defaults;
+ * then a pair schedule beats an every-pair one; then the highest notional
+ * band the trade reaches wins.
+ */
+export function selectSchedule<T extends SpreadSchedule>(
+  schedules: T[],
+  target: SpreadTarget,
+): T | null {
+  let best: T | null = null;
+  let bestRank = -1;
+
+  for (const schedule of schedules) {
+    const rank = specificity(schedule, target);
+    if (rank < 0) continue;
+    if (
+      rank > bestRank ||
+      (rank === bestRank && schedule.minNotional > best!.minNotional)
+    ) {
+      best = schedule;
+      bestRank = rank;
+    }
+  }
+  return best;
+}
+
+/**
+ * Move a scaled price or amount against the client by bps:
+ * up for BUY (pays more), down for SELL (receives less).
+ */
+export function applyMarkup(value: number, side: Side, bps: number): number {
+  const markup = scaledMultiply(value, bps * 10_000); // bps as a scaled fraction
+  return side === "BUY" ? value + markup : value - markup;
+}
@@ -0,0 +1,62 @@
+import { describe, test, expect } from "bun:test";
+import { profileWeights, sliceAmount, twapSchedule, vwapSchedule } from "../algo-schedule";
+import { toScaled } from "../money";
+
+describe("twapSchedule", () => {
+  test("splits the total into equal slices", () => {
+    expect(twapSchedule(toScaled(10), 4)).toEqual(new Array(4).fill(toScaled(2.5)));
+  });
+
+  test("last slice takes the rounding remainder", () => {
+    const schedule = twapSchedule(10, 3);
+    expect(schedule).toEqual([3, 3, 4]);
+    expect(schedule.reduce((a, b) => a + b, 0)).toBe(10);
+  });
+});
+
+describe("vwapSchedule", () => {
+  test("slices follow the volume weights", () => {
+    expect(vwapSchedule(toScaled(2), [1, 3])).toEqual([toScaled(0.5), toScaled(1.5)]);
+  });
+
+  test("zero weight slices trade nothing", () => {
+    expect(vwapSchedule(toScaled(1), [0, 1, 0, 1])).toEqual([0, toScaled(0.5), 0, toScaled(0.5)]);
+  });
+
+  test("weights without a positive sum are rejected", () => {
+    expect(() => vwapSchedule(100, [0, 0])).toThrow();
+    expect(() => vwapSchedule(100, [2, -1])).toThrow();
+  });
+});
+
+describe("profileWeights", () => {
+  const profile = Array.from({ length: 24 }, (_, hour) => hour + 1);
+
+  test("reads each slice's UTC hour from the profile", () => {
+    const start = Date.UTC(2026, 0, 5, 22, 30);
+    const hour = 60 * 60 * 1000;
+    expect(profileWeights(start, hour, 4, profile)).toEqual([23, 24, 1, 2]);
+  });
+
+  test("slices within one hour share its weight", () => {
+    const start = Date.UTC(2026, 0, 5, 9, 0);
+    expect(profileWeights(start, 60_000, 3, profile)).toEqual([10, 10, 10]);
+  });
+});
+
+describe("sliceAmount", () => {
+  const schedule = [100, 100, 100];
+
+  test("on schedule, each slice trades its own amount", () => {
+    expect(sliceAmount(schedule, 0, 0)).toBe(100);
+    expect(sliceAmount(schedule, 1, 100)).toBe(100);
+  });
+
+  test("a missed slice is caught up by the next", () => {
+    expect(sliceAmount(schedule, 2, 100)).toBe(200);
+  });
+
+  test("never trades past the cumulative target", () => {
+    expect(sliceAmount(schedule, 1, 250)).toBe(0);
+  });
+});
@@ -1,16 +1,18 @@
 import { describe, test, expect, beforeAll } from "bun:test";
 
-// API integration tests run locally against a live MiniOpenFX server
+// API integration tests run against a running MiniOpenFX server
 // Usage:
 //   1. Start the server:  bun run dev
-//   2. Run these tests:   bun test src/test/api.test.ts
-
-// Requires a live Binance API connection — cannot run in CI.
+//   2. Run these tests:   API_BASE_URL=http://localhost:3000 bun test src/test/api.test.ts
+//
+// With live prices they need a Binance connection. CI runs them offline
+// against a server replaying src/test/fixtures/prices.ndjson.
 // They make real HTTP requests to the running server
 // and verify correct behavior end-to-end including DB state changes.
 
-const BASE_URL = "https://mini-openfx-production.up.railway.app";
+const BASE_URL = process.env.API_BASE_URL ?? "https://mini-openfx-production.up.railway.app";
 const ACCOUNT_ID = "demo-account";
+const ADMIN_KEY = process.env.ADMIN_API_KEY;
 
 function api(path: string, options?: RequestInit): Promise<Response> {
   const headers: any = {
@@ -67,6 +69,8 @@ describe("Prices", () => {
       expect(price.askPrice).toBeDefined();
       expect(price.midPrice).toBeDefined();
       expect(price.timestamp).toBeNumber();
+      expect(price.provider).toBeString();
+      expect(price.stale).toBeUndefined();
 
       // Bid should be less than ask (basic sanity)
       expect(parseFloat(price.bidPrice)).toBeLessThan(parseFloat(price.askPrice));
@@ -82,6 +86,16 @@ describe("Prices", () => {
     expect(parseFloat(data.bidPrice)).toBeGreaterThan(0);
   });
 
+  test("GET /api/v1/prices/:pair synthesizes a cross pair", async () => {
+    const res = await apiPublic("/api/v1/prices/BTC_EUR");
+    expect(res.status).toBe(200);
+
+    const { data } = await res.json();
+    expect(data.pair).toBe("BTC_EUR");
+    expect(data.legs).toHaveLength(2);
+    expect(parseFloat(data.bidPrice)).toBeLessThan(parseFloat(data.askPrice));
+  });
+
   test("GET /api/v1/prices/:pair returns 400 for unsupported pair", async () => {
     const res = await apiPublic("/api/v1/prices/XYZ_ABC");
     expect(res.status).toBe(400);
@@ -91,6 +105,132 @@ describe("Prices", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Price Stream
+// ---------------------------------------------------------------------------
+
+// A price stream connection that records every frame it receives
+async function openStream() {
+  const ws = new WebSocket(`${BASE_URL.replace(/^http/, "ws")}/api/v1/stream/prices`);
+  const frames: any[] = [];
+  ws.onmessage = (event) => frames.push(JSON.parse(String(event.data)));
+  await new Promise((resolve, reject) => {
+    ws.onopen = resolve;
+    ws.onerror = reject;
+  });
+
+  // Resolves with the first frame from index `from` on that matches
+  const next = (match: (frame: any) => boolean, from = 0, timeoutMs = 5_000) =>
+    new Promise<any>((resolve, reject) => {
+      const deadline = Date.now() + timeoutMs;
+      const poll = () => {
+        const frame = frames.slice(from).find(match);
+        if (frame) return resolve(frame);
+        if (Date.now() > deadline) return reject(new Error("timed out waiting for a stream frame"));
+        setTimeout(poll, 20);
+      };
+      poll();
+    });
+
+  return { ws, frames, next, send: (message: unknown) => ws.send(JSON.stringify(message)) };
+}
+
+describe("Price Stream", () => {
+  test("Subscribing acknowledges, sends a snapshot and then pushes price changes", async () => {
+    const stream = await openStream();
+    try {
+      stream.send({ type: "subscribe", pairs: ["EURUSDT"] });
+
+      const ack = await stream.next((f) => f.type === "subscribed");
+      expect(ack.pairs).toEqual(["EUR_USDT"]);
+
+      const snapshot = await stream.next((f) => f.type === "price");
+      expect(snapshot.data.pair).toBe("EUR_USDT");
+      expect(parseFloat(snapshot.data.bidPrice)).toBeLessThan(parseFloat(snapshot.data.askPrice));
+
+      // The replay moves EUR_USDT every half second
+      const from = stream.frames.indexOf(snapshot) + 1;
+      const update = await stream.next(
+        (f) => f.type === "price" && f.data.bidPrice !== snapshot.data.bidPrice,
+        from,
+      );
+      expect(update.data.pair).toBe("EUR_USDT");
+    } finally {
+      stream.ws.close();
+    }
+  });
+
+  test("Unsubscribing stops a pair's pushes and keeps the others", async () => {
+    const stream = await openStream();
+    try {
+      stream.send({ type: "subscribe", pairs: ["EUR_USDT", "BTC_USDT"] });
+      await stream.next((f) => f.type === "price" && f.data.pair === "EUR_USDT");
+      await stream.next((f) => f.type === "price" && f.data.pair === "BTC_USDT");
+
+      stream.send({ type: "unsubscribe", pairs: ["EUR_USDT"] });
+      const ack = await stream.next((f) => f.type === "unsubscribed");
+      expect(ack.pairs).toEqual(["EUR_USDT"]);
+
+      const from = stream.frames.indexOf(ack) + 1;
+      await Bun.sleep(2_000);
+      const prices = stream.frames.slice(from).filter((f) => f.type === "price");
+      expect(prices.length).toBeGreaterThan(0);
+      expect(prices.every((f) => f.data.pair === "BTC_USDT")).toBe(true);
+    } finally {
+      stream.ws.close();
+    }
+  });
+
+  test("Invalid messages get an error frame and leave the connection open", async () => {
+    const stream = await openStream();
+    try {
+      stream.ws.send("not json");
+      const notJson = await stream.next((f) => f.type === "error");
+      expect(notJson.error.code).toBe("VALIDATION_ERROR");
+
+      let from = stream.frames.length;
+      stream.send({ type: "publish", pairs: ["EUR_USDT"] });
+      const unknownType = await stream.next((f) => f.type === "error", from);
+      expect(unknownType.error.code).toBe("VALIDATION_ERROR");
+
+      from = stream.frames.length;
+      stream.send({ type: "subscribe", pairs: ["XYZ_ABC"] });
+      const badPair = await stream.next((f) => f.type === "error", from);
+      expect(badPair.error.code).toBe("PAIR_NOT_SUPPORTED");
+
+      from = stream.frames.length;
+      stream.send({ type: "ping" });
+      await stream.next((f) => f.type === "pong", from);
+      expect(stream.frames.some((f) => f.type === "subscribed")).toBe(false);
+    } finally {
+      stream.ws.close();
+    }
+  });
+
+  test("Ping is answered with a pong", async () => {
+    const stream = await openStream();
+    try {
+      const before = Date.now();
+      stream.send({ type: "ping" });
+      const pong = await stream.next((f) => f.type === "pong");
+      expect(pong.timestamp).toBeGreaterThanOrEqual(before);
+    } finally {
+      stream.ws.close();
+    }
+  });
+
+  test("A heartbeat arrives every 15 seconds without any subscription", async () => {
+    const stream = await openStream();
+    try {
+      const heartbeat = await stream.next((f) => f.type === "heartbeat", 0, 17_000);
+      expect(heartbeat.timestamp).toBeNumber();
+      expect(stream.frames.some((f) => f.type === "price")).toBe(false);
+    } finally {
+      stream.ws.close();
+    }
+  }, 20_000);
+});
+
 // ---------------------------------------------------------------------------
 // Auth
 // ---------------------------------------------------------------------------
@@ -110,6 +250,24 @@ describe("Auth", () => {
     });
     expect(res.status).toBe(401);
   });
+
+  test("Wrong X-Admin-Key returns 401", async () => {
+    const res = await fetch(`${BASE_URL}/api/v1/admin/venues`, {
+      headers: { "X-Admin-Key": "not-the-key" },
+    });
+    expect(res.status).toBe(401);
+  });
+
+  test.skipIf(!ADMIN_KEY)("Multibyte X-Admin-Key of the key's length returns 401", async () => {
+    // Same number of characters as the key, but twice the bytes
+    const res = await fetch(`${BASE_URL}/api/v1/admin/venues`, {
+      headers: { "X-Admin-Key": "é".repeat(ADMIN_KEY!.length) },
+    });
+    expect(res.status).toBe(401);
+
+    const body = await res.json();
+    expect(body.error.code).toBe("UNAUTHORIZED");
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -200,6 +358,9 @@ describe("Quotes", () => {
     const { data } = await res.json();
     expect(data.id).toBe(created.id);
     expect(data.status).toBe("OPEN");
+    expect(data.venue).toBe(created.venue);
+    expect(data.venueQuotes).toEqual(created.venueQuotes);
+    expect(data.venueQuotes.map((q: any) => q.venue)).toContain(data.venue);
   });
 
   test("POST /api/v1/quotes rejects same base and quote currency", async () => {
@@ -229,6 +390,88 @@ describe("Quotes", () => {
     expect(res.status).toBe(400);
   });
 
+  test("POST /api/v1/quotes sized in the quote currency keeps that amount exact", async () => {
+    const res = await api("/api/v1/quotes", {
+      method: "POST",
+      body: JSON.stringify({
+        baseCurrency: "BTC",
+        quoteCurrency: "USDT",
+        side: "BUY",
+        amount: 500,
+        amountCurrency: "USDT",
+      }),
+    });
+    expect(res.status).toBe(201);
+
+    const { data } = await res.json();
+    expect(data.amountCurrency).toBe("USDT");
+    expect(data.quoteAmount).toBe("500.00000000");
+    // The base amount is derived from the price and rounded down for a BUY
+    expect(parseFloat(data.baseAmount) * parseFloat(data.price)).toBeLessThanOrEqual(500);
+    expect(parseFloat(data.baseAmount)).toBeCloseTo(500 / parseFloat(data.price), 7);
+
+    const { data: fetched } = await (await api(`/api/v1/quotes/${data.id}`)).json();
+    expect(fetched.amountCurrency).toBe("USDT");
+    expect(fetched.quoteAmount).toBe("500.00000000");
+  });
+
+  test("POST /api/v1/quotes rejects an amountCurrency outside the pair", async () => {
+    const res = await api("/api/v1/quotes", {
+      method: "POST",
+      body: JSON.stringify({
+        baseCurrency: "EUR",
+        quoteCurrency: "USDT",
+        side: "BUY",
+        amount: 10,
+        amountCurrency: "BTC",
+      }),
+    });
+    expect(res.status).toBe(400);
+
+    const body = await res.json();
+    expect(body.error.code).toBe("VALIDATION_ERROR");
+  });
+
+  test("GET /api/v1/quotes lists quotes newest first, filtered by status and pair", async () => {
+    const created = [];
+    for (const amount of [2, 3]) {
+      const res = await api("/api/v1/quotes", {
+        method: "POST",
+        body: JSON.stringify({ baseCurrency: "EUR", quoteCurrency: "USDT", side: "SELL", amount }),
+      });
+      created.push((await res.json()).data);
+    }
+
+    const res = await api(`/api/v1/quotes?status=OPEN&pair=EUR_USDT&from=${created[0].createdAt}`);
+    expect(res.status).toBe(200);
+
+    const { data, pagination } = await res.json();
+    const ids = data.map((q: any) => q.id);
+    expect(ids.indexOf(created[1].id)).toBeLessThan(ids.indexOf(created[0].id));
+    expect(ids.indexOf(created[0].id)).toBeGreaterThanOrEqual(0);
+    for (const q of data) {
+      expect(q.status).toBe("OPEN");
+      expect(`${q.baseCurrency}_${q.quoteCurrency}`).toBe("EUR_USDT");
+      expect(q.createdAt).toBeGreaterThanOrEqual(created[0].createdAt);
+    }
+    expect(pagination.total).toBe(data.length);
+  });
+
+  test("GET /api/v1/quotes pages with limit and offset", async () => {
+    const { data: all, pagination } = await (await api("/api/v1/quotes")).json();
+    expect(pagination.total).toBeGreaterThanOrEqual(2);
+
+    const { data: page } = await (await api("/api/v1/quotes?limit=1&offset=1")).json();
+    expect(page.length).toBe(1);
+    expect(page[0].id).toBe(all[1].id);
+  });
+
+  test("GET /api/v1/quotes rejects an unknown status", async () => {
+    const res = await api("/api/v1/quotes?status=PENDING");
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe("VALIDATION_ERROR");
+  });
+
   test("Quote from another account returns 404", async () => {
     // Create quote under demo-account
     const createRes = await api("/api/v1/quotes", {
@@ -325,7 +568,7 @@ describe("Trades - Market", () => {
     expect(data.side).toBe("SELL");
   });
 
-  test("MARKET trade rejects unsupported pair", async () => {
+  test("MARKET trade on a cross pair routes through USDT", async () => {
     const res = await api("/api/v1/trades", {
       method: "POST",
       body: JSON.stringify({
@@ -336,10 +579,13 @@ describe("Trades - Market", () => {
         amount: 10,
       }),
     });
-    expect(res.status).toBe(400);
+    expect(res.status).toBe(201);
 
-    const body = await res.json();
-    expect(body.error.code).toBe("PAIR_NOT_SUPPORTED");
+    const { data } = await res.json();
+    expect(data.baseCurrency).toBe("EUR");
+    expect(data.quoteCurrency).toBe("BTC");
+    expect(data.legs.map((l: any) => l.pair)).toEqual(["EUR_USDT", "BTC_USDT"]);
+    expect(data.legs.map((l: any) => l.side)).toEqual(["BUY", "SELL"]);
   });
 
   test("MARKET trade rejects same base and quote", async () => {
@@ -355,164 +601,699 @@ describe("Trades - Market", () => {
     });
     expect(res.status).toBe(400);
   });
-});
-
-// ---------------------------------------------------------------------------
-// Trades — RFQ flow
-// ---------------------------------------------------------------------------
 
-describe("Trades - RFQ", () => {
-  test("Full RFQ lifecycle: create quote → execute trade", async () => {
-    // Step 1: Get a quote
-    const quoteRes = await api("/api/v1/quotes", {
+  function marketTrade(side: string, extra: Record<string, unknown> = {}) {
+    return api("/api/v1/trades", {
       method: "POST",
       body: JSON.stringify({
-        baseCurrency: "BTC",
+        type: "MARKET",
+        baseCurrency: "EUR",
         quoteCurrency: "USDT",
-        side: "BUY",
-        amount: 0.001,
+        side,
+        amount: 1,
+        ...extra,
       }),
     });
-    expect(quoteRes.status).toBe(201);
-    const { data: quote } = await quoteRes.json();
-    expect(quote.status).toBe("OPEN");
+  }
 
-    // Step 2: Execute the trade using the quote
-    const tradeRes = await api("/api/v1/trades", {
+  test("MARKET BUY pays the offer and SELL receives the bid, with venue fills", async () => {
+    const { data: buy } = await (await marketTrade("BUY")).json();
+    const { data: sell } = await (await marketTrade("SELL")).json();
+
+    expect(parseFloat(buy.price)).toBeGreaterThan(parseFloat(sell.price));
+    expect(buy.fills.length).toBeGreaterThan(0);
+    expect(buy.fills[0].side).toBe("BUY");
+  });
+
+  test("MARKET trade within its limitPrice executes", async () => {
+    const res = await marketTrade("BUY", { limitPrice: 10 });
+    expect(res.status).toBe(201);
+  });
+
+  test("MARKET BUY above its limitPrice is rejected", async () => {
+    const res = await marketTrade("BUY", { limitPrice: 0.01 });
+    expect(res.status).toBe(400);
+
+    const body = await res.json();
+    expect(body.error.code).toBe("LIMIT_PRICE_BREACHED");
+  });
+
+  test("MARKET SELL below its limitPrice is rejected", async () => {
+    const res = await marketTrade("SELL", { limitPrice: 10 });
+    expect(res.status).toBe(400);
+
+    const body = await res.json();
+    expect(body.error.code).toBe("LIMIT_PRICE_BREACHED");
+  });
+
+  test("MARKET trade filled at the touch passes a zero maxSlippageBps", async () => {
+    const res = await marketTrade("BUY", { maxSlippageBps: 0 });
+    expect(res.status).toBe(201);
+  });
+
+  test("MARKET BUY sized in the quote currency spends exactly that amount", async () => {
+    const before = (await (await api("/api/v1/balances")).json()).data;
+    const res = await api("/api/v1/trades", {
       method: "POST",
       body: JSON.stringify({
-        type: "RFQ",
-        quoteId: quote.id,
+        type: "MARKET",
+        baseCurrency: "BTC",
+        quoteCurrency: "USDT",
+        side: "BUY",
+        amount: 500,
+        amountCurrency: "USDT",
       }),
     });
-    expect(tradeRes.status).toBe(201);
-
-    const { data: trade } = await tradeRes.json();
-    expect(trade.type).toBe("RFQ");
-    expect(trade.baseCurrency).toBe("BTC");
-    expect(trade.quoteCurrency).toBe("USDT");
-    expect(trade.side).toBe("BUY");
+    expect(res.status).toBe(201);
 
-    // The trade price should match the quoted price
-    expect(trade.price).toBe(quote.price);
-    expect(trade.baseAmount).toBe(quote.baseAmount);
+    const { data } = await res.json();
+    expect(data.quoteAmount).toBe("500.00000000");
+    expect(parseFloat(data.baseAmount)).toBeCloseTo(500 / parseFloat(data.price), 7);
 
-    // Step 3: Verify the quote is now EXECUTED
-    const quoteCheckRes = await api(`/api/v1/quotes/${quote.id}`);
-    const { data: updatedQuote } = await quoteCheckRes.json();
-    expect(updatedQuote.status).toBe("EXECUTED");
+    const after = (await (await api("/api/v1/balances")).json()).data;
+    const usdt = (rows: any[]) => parseFloat(rows.find((b) => b.currency === "USDT").amount);
+    expect(usdt(before) - usdt(after)).toBeCloseTo(500, 8);
   });
 
-  test("RFQ trade rejects already-executed quote", async () => {
-    // Create and execute a quote
-    const quoteRes = await api("/api/v1/quotes", {
+  test("MARKET SELL sized in the quote currency receives exactly that amount", async () => {
+    const res = await api("/api/v1/trades", {
       method: "POST",
       body: JSON.stringify({
-        baseCurrency: "EUR",
+        type: "MARKET",
+        baseCurrency: "BTC",
         quoteCurrency: "USDT",
         side: "SELL",
-        amount: 1,
+        amount: 100,
+        amountCurrency: "USDT",
       }),
     });
-    const { data: quote } = await quoteRes.json();
+    expect(res.status).toBe(201);
 
-    await api("/api/v1/trades", {
-      method: "POST",
-      body: JSON.stringify({ type: "RFQ", quoteId: quote.id }),
-    });
+    const { data } = await res.json();
+    expect(data.quoteAmount).toBe("100.00000000");
+    // Rounded up for a SELL, so the client never gives less than the price
+    expect(parseFloat(data.baseAmount) * parseFloat(data.price)).toBeGreaterThanOrEqual(100);
+  });
 
-    // Try to execute the same quote again
-    const res = await api("/api/v1/trades", {
-      method: "POST",
-      body: JSON.stringify({ type: "RFQ", quoteId: quote.id }),
-    });
-    expect(res.status).toBe(409);
+  test("MARKET trade rejects a negative maxSlippageBps", async () => {
+    const res = await marketTrade("BUY", { maxSlippageBps: -1 });
+    expect(res.status).toBe(400);
 
     const body = await res.json();
-    expect(body.error.code).toBe("QUOTE_ALREADY_EXECUTED");
+    expect(body.error.code).toBe("VALIDATION_ERROR");
   });
+});
 
-  test("RFQ trade rejects nonexistent quoteId", async () => {
-    const res = await api("/api/v1/trades", {
-      method: "POST",
-      body: JSON.stringify({
-        type: "RFQ",
-        quoteId: "00000000-0000-0000-0000-000000000000",
-      }),
-    });
-    expect(res.status).toBe(404);
+// ---------------------------------------------------------------------------
+// Trades — Inverted pairs
+// ---------------------------------------------------------------------------
+
+describe("Trades - Inverted pairs", () => {
+  async function balances(): Promise<Record<string, number>> {
+    const res = await api("/api/v1/balances");
+    const { data } = await res.json();
+    return Object.fromEntries(data.map((b: any) => [b.currency, parseFloat(b.amount)]));
+  }
+
+  test("USDT_EUR price is the reciprocal of EUR_USDT with bid and ask swapped", async () => {
+    const direct = (await (await apiPublic("/api/v1/prices/EUR_USDT")).json()).data;
+    const inverted = (await (await apiPublic("/api/v1/prices/USDT_EUR")).json()).data;
+
+    expect(inverted.pair).toBe("USDT_EUR");
+    expect(parseFloat(inverted.bidPrice)).toBeCloseTo(1 / parseFloat(direct.askPrice), 3);
+    expect(parseFloat(inverted.askPrice)).toBeCloseTo(1 / parseFloat(direct.bidPrice), 3);
   });
 
-  test("RFQ trade rejects quote from another account", async () => {
-    // Create quote under demo-account
-    const quoteRes = await api("/api/v1/quotes", {
+  test("MARKET BUY USDT_EUR pays EUR and receives USDT", async () => {
+    const before = await balances();
+
+    const res = await api("/api/v1/trades", {
       method: "POST",
       body: JSON.stringify({
-        baseCurrency: "EUR",
-        quoteCurrency: "USDT",
+        type: "MARKET",
+        baseCurrency: "USDT",
+        quoteCurrency: "EUR",
         side: "BUY",
-        amount: 1,
+        amount: 10, // buy 10 USDT
       }),
     });
-    const { data: quote } = await quoteRes.json();
+    expect(res.status).toBe(201);
 
-    // Try to execute with a different account
-    const res = await fetch(`${BASE_URL}/api/v1/trades`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Account-Id": "attacker-account",
-        "X-Idempotency-Key": crypto.randomUUID(),
-      },
-      body: JSON.stringify({ type: "RFQ", quoteId: quote.id }),
-    });
-    expect(res.status).toBe(404);
+    const { data } = await res.json();
+    expect(parseFloat(data.price)).toBeLessThan(1.5); // EUR per USDT, not USDT per EUR
+    expect(parseFloat(data.quoteAmount)).toBeLessThan(10);
+    expect(data.legs).toEqual([expect.objectContaining({ pair: "EUR_USDT", side: "SELL" })]);
+
+    const after = await balances();
+    expect(after["USDT"]).toBeCloseTo(before["USDT"] + 10, 6);
+    expect(after["EUR"]).toBeCloseTo(before["EUR"] - parseFloat(data.quoteAmount), 6);
   });
 
-  test("RFQ trade rejects valid quote after TTL has passed", async () => {
-    // Create a quote
+  test("RFQ SELL USDT_BTC receives BTC at the reciprocal price", async () => {
     const quoteRes = await api("/api/v1/quotes", {
       method: "POST",
       body: JSON.stringify({
-        baseCurrency: "BTC",
-        quoteCurrency: "USDT",
+        baseCurrency: "USDT",
+        quoteCurrency: "BTC",
         side: "SELL",
-        amount: 0.01,
+        amount: 100, // sell 100 USDT
       }),
     });
+    expect(quoteRes.status).toBe(201);
     const { data: quote } = await quoteRes.json();
+    expect(parseFloat(quote.quoteAmount)).toBeLessThan(0.01);
+    expect(quote.legs[0].side).toBe("BUY");
 
-    // The TTL for a quote is 30 seconds. Wait 31 seconds to ensure it expires.
-    await new Promise((resolve) => setTimeout(resolve, 31000));
-
-    // Attempt to execute the trade using the expired quote
+    const before = await balances();
     const res = await api("/api/v1/trades", {
       method: "POST",
       body: JSON.stringify({ type: "RFQ", quoteId: quote.id }),
     });
+    expect(res.status).toBe(201);
 
-    // The API should reject it with 400 and QUOTE_EXPIRED
-    expect(res.status).toBe(400);
-
-    const body = await res.json();
-    expect(body.error.code).toBe("QUOTE_EXPIRED");
-  }, 35000); // Give the test 35 seconds to run, as we wait for 31 seconds
+    const after = await balances();
+    expect(after["USDT"]).toBeCloseTo(before["USDT"] - 100, 6);
+    expect(after["BTC"]).toBeCloseTo(before["BTC"] + parseFloat(quote.quoteAmount), 8);
+  });
 });
 
 // ---------------------------------------------------------------------------
-// Trade History
+// Trades — Multi-leg conversions
 // ---------------------------------------------------------------------------
 
-describe("Trade History", () => {
-  test("GET /api/v1/trades returns trade list", async () => {
-    const res = await api("/api/v1/trades");
-    expect(res.status).toBe(200);
+describe("Trades - Multi-leg", () => {
+  function convert(legs: Record<string, unknown>[]) {
+    return api("/api/v1/trades", { method: "POST", body: JSON.stringify({ type: "MULTI_LEG", legs }) });
+  }
+
+  async function balances(): Promise<Record<string, string>> {
+    const { data } = await (await api("/api/v1/balances")).json();
+    return Object.fromEntries(data.map((b: any) => [b.currency, b.amount]));
+  }
+
+  test("EUR → USDT → BTC books both legs, the second spending exactly what the first received", async () => {
+    const before = await balances();
+    const res = await convert([
+      { baseCurrency: "EUR", quoteCurrency: "USDT", side: "SELL", amount: 50 },
+      { baseCurrency: "BTC", quoteCurrency: "USDT", side: "BUY" },
+    ]);
+    expect(res.status).toBe(201);
 
     const { data } = await res.json();
-    expect(Array.isArray(data)).toBe(true);
-    expect(data.length).toBeGreaterThanOrEqual(1); // we made trades above
+    const [sellEur, buyBtc] = data.trades;
+    expect(sellEur.parentId).toBe(data.parentId);
+    expect(buyBtc.parentId).toBe(data.parentId);
+    expect(sellEur.baseAmount).toBe("50.00000000");
+    expect(buyBtc.quoteAmount).toBe(sellEur.quoteAmount);
+
+    // No USDT left over from the hop
+    const after = await balances();
+    expect(after.USDT).toBe(before.USDT);
+
+    const { data: history } = await (await api(`/api/v1/trades?parentId=${data.parentId}`)).json();
+    expect(history.map((t: any) => t.id).sort()).toEqual([sellEur.id, buyBtc.id].sort());
+  });
 
-    // Verify shape of each trade
+  test("A leg that can't be booked rolls back the legs before it", async () => {
+    const before = await balances();
+    const res = await convert([
+      { baseCurrency: "EUR", quoteCurrency: "USDT", side: "SELL", amount: 10 },
+      { baseCurrency: "BTC", quoteCurrency: "USDT", side: "BUY", amount: 0.5 }, // more than the USDT balance
+    ]);
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe("INSUFFICIENT_BALANCE");
+
+    expect(await balances()).toEqual(before);
+  });
+
+  test("A leg without an amount must spend what the previous leg received", async () => {
+    const res = await convert([
+      { baseCurrency: "EUR", quoteCurrency: "USDT", side: "SELL", amount: 10 },
+      { baseCurrency: "BTC", quoteCurrency: "USDT", side: "SELL" },
+    ]);
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe("VALIDATION_ERROR");
+  });
+
+  test("A single leg is rejected", async () => {
+    const res = await convert([{ baseCurrency: "EUR", quoteCurrency: "USDT", side: "SELL", amount: 10 }]);
+    expect(res.status).toBe(400);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Admin — Trade cancel and correct (needs ADMIN_API_KEY, as CI sets)
+// ---------------------------------------------------------------------------
+
+describe.skipIf(!ADMIN_KEY)("Admin - Trade revisions", () => {
+  function adminPost(path: string, body: unknown): Promise<Response> {
+    return fetch(`${BASE_URL}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Admin-Key": ADMIN_KEY! },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function balances(): Promise<Record<string, number>> {
+    const { data } = await (await api("/api/v1/balances")).json();
+    return Object.fromEntries(data.map((b: any) => [b.currency, parseFloat(b.amount)]));
+  }
+
+  async function buyEur(amount: number) {
+    const res = await api("/api/v1/trades", {
+      method: "POST",
+      body: JSON.stringify({ type: "MARKET", baseCurrency: "EUR", quoteCurrency: "USDT", side: "BUY", amount }),
+    });
+    return (await res.json()).data;
+  }
+
+  test("Cancel reverses the balances and keeps the trade as CANCELLED", async () => {
+    const before = await balances();
+    const trade = await buyEur(10);
+
+    const res = await adminPost(`/api/v1/admin/trades/${trade.id}/cancel`, { reason: "booked in error" });
+    expect(res.status).toBe(200);
+    const { data: cancelled } = await res.json();
+    expect(cancelled.status).toBe("CANCELLED");
+    expect(cancelled.reason).toBe("booked in error");
+
+    const after = await balances();
+    expect(after.EUR).toBeCloseTo(before.EUR, 8);
+    expect(after.USDT).toBeCloseTo(before.USDT, 8);
+
+    const { data: history } = await (await api("/api/v1/trades")).json();
+    expect(history.find((t: any) => t.id === trade.id).status).toBe("CANCELLED");
+
+    const again = await adminPost(`/api/v1/admin/trades/${trade.id}/cancel`, { reason: "twice" });
+    expect(again.status).toBe(409);
+    expect((await again.json()).error.code).toBe("TRADE_ALREADY_REVISED");
+  });
+
+  test("Correct books a replacement, posts the difference and links the chain", async () => {
+    const before = await balances();
+    const trade = await buyEur(10);
+
+    const res = await adminPost(`/api/v1/admin/trades/${trade.id}/correct`, {
+      baseAmount: 8,
+      reason: "client asked for 8",
+    });
+    expect(res.status).toBe(201);
+    const { data: replacement } = await res.json();
+    expect(replacement.status).toBe("EXECUTED");
+    expect(replacement.replaces).toBe(trade.id);
+    expect(replacement.baseAmount).toBe("8.00000000");
+    expect(replacement.price).toBe(trade.price);
+
+    const after = await balances();
+    expect(after.EUR - before.EUR).toBeCloseTo(8, 8);
+    expect(before.USDT - after.USDT).toBeCloseTo(parseFloat(replacement.quoteAmount), 8);
+
+    const { data: original } = await (await api(`/api/v1/trades/${trade.id}`)).json();
+    expect(original.status).toBe("CORRECTED");
+    expect(original.replacedBy).toBe(replacement.id);
+  });
+
+  test("Correct with nothing to change is rejected", async () => {
+    const trade = await buyEur(1);
+    const res = await adminPost(`/api/v1/admin/trades/${trade.id}/correct`, { reason: "no-op" });
+    expect(res.status).toBe(400);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Admin — Fee schedules and revenue (needs ADMIN_API_KEY, as CI sets)
+// ---------------------------------------------------------------------------
+
+describe.skipIf(!ADMIN_KEY)("Admin - Fees", () => {
+  function admin(path: string, body?: unknown): Promise<Response> {
+    return fetch(`${BASE_URL}${path}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers: { "Content-Type": "application/json", "X-Admin-Key": ADMIN_KEY! },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+  }
+
+  async function balances(): Promise<Record<string, number>> {
+    const { data } = await (await api("/api/v1/balances")).json();
+    return Object.fromEntries(data.map((b: any) => [b.currency, parseFloat(b.amount)]));
+  }
+
+  // Only this block trades BTC_EUR, so its schedule doesn't touch other tests
+  async function sellBtcForEur(amount: number) {
+    const res = await api("/api/v1/trades", {
+      method: "POST",
+      body: JSON.stringify({ type: "MARKET", baseCurrency: "BTC", quoteCurrency: "EUR", side: "SELL", amount }),
+    });
+    expect(res.status).toBe(201);
+    return (await res.json()).data;
+  }
+
+  const startOfDay = new Date().setUTCHours(0, 0, 0, 0);
+  let feeTrade: any;
+
+  test("Trades without a fee schedule report a zero fee", async () => {
+    const res = await api("/api/v1/trades", {
+      method: "POST",
+      body: JSON.stringify({ type: "MARKET", baseCurrency: "EUR", quoteCurrency: "USDT", side: "BUY", amount: 1 }),
+    });
+    const { data } = await res.json();
+    expect(data.fee).toBe("0.00000000");
+    expect(data.feeCurrency).toBe("USDT");
+  });
+
+  test("POST /api/v1/admin/fee-schedules creates a schedule", async () => {
+    const res = await admin("/api/v1/admin/fee-schedules", {
+      accountId: ACCOUNT_ID,
+      pair: "BTC_EUR",
+      bps: 20,
+      minFee: 0.5,
+      feeCurrency: "QUOTE",
+    });
+    expect(res.status).toBe(201);
+    const { data } = await res.json();
+    expect(data.bps).toBe(20);
+    expect(data.minFee).toBe("0.50000000");
+
+    const { data: schedules } = await (await admin("/api/v1/admin/fee-schedules")).json();
+    expect(schedules.some((s: any) => s.id === data.id)).toBe(true);
+  });
+
+  test("The fee comes off on top of the trade and is returned with it", async () => {
+    const before = await balances();
+    feeTrade = await sellBtcForEur(0.001); // ~59 EUR, so 20 bps is under the 0.5 EUR minimum
+
+    expect(feeTrade.fee).toBe("0.50000000");
+    expect(feeTrade.feeCurrency).toBe("EUR");
+
+    const after = await balances();
+    expect(after.EUR - before.EUR).toBeCloseTo(parseFloat(feeTrade.quoteAmount) - 0.5, 8);
+    expect(before.BTC - after.BTC).toBeCloseTo(0.001, 8);
+
+    const { data: stored } = await (await api(`/api/v1/trades/${feeTrade.id}`)).json();
+    expect(stored.fee).toBe("0.50000000");
+  });
+
+  test("GET /api/v1/admin/fees/revenue reports today's fees", async () => {
+    const res = await admin(`/api/v1/admin/fees/revenue?from=${startOfDay}`);
+    expect(res.status).toBe(200);
+    const { data } = await res.json();
+    const today = data.find((r: any) => r.currency === "EUR");
+    expect(today.day).toBe(new Date(startOfDay).toISOString().slice(0, 10));
+    expect(parseFloat(today.amount)).toBeGreaterThanOrEqual(0.5);
+    expect(today.trades).toBeGreaterThanOrEqual(1);
+  });
+
+  test("Cancelling a trade refunds its fee", async () => {
+    const revenue = async () => {
+      const { data } = await (await admin(`/api/v1/admin/fees/revenue?from=${startOfDay}`)).json();
+      return parseFloat(data.find((r: any) => r.currency === "EUR").amount);
+    };
+    const before = await balances();
+    const revenueBefore = await revenue();
+
+    const res = await admin(`/api/v1/admin/trades/${feeTrade.id}/cancel`, { reason: "fee test" });
+    expect(res.status).toBe(200);
+
+    const after = await balances();
+    expect(before.EUR - after.EUR).toBeCloseTo(parseFloat(feeTrade.quoteAmount) - 0.5, 8);
+    expect(after.BTC - before.BTC).toBeCloseTo(0.001, 8);
+    expect(await revenue()).toBeCloseTo(revenueBefore - 0.5, 8);
+  });
+
+  test("A trade on the inverted pair uses the same schedule and fee currency", async () => {
+    const res = await api("/api/v1/trades", {
+      method: "POST",
+      body: JSON.stringify({ type: "MARKET", baseCurrency: "EUR", quoteCurrency: "BTC", side: "BUY", amount: 50 }),
+    });
+    expect(res.status).toBe(201);
+    const { data } = await res.json();
+    expect(data.fee).toBe("0.50000000"); // 20 bps of 50 EUR is under the minimum
+    expect(data.feeCurrency).toBe("EUR");
+  });
+
+  test("A limit order that can't pay its fee is REJECTED and releases its reservation", async () => {
+    await admin("/api/v1/admin/fee-schedules", {
+      accountId: ACCOUNT_ID,
+      pair: "BTC_EUR",
+      flatFee: 1_000_000,
+      feeCurrency: "QUOTE",
+    });
+    const { data: before } = await (await api("/api/v1/balances")).json();
+    const btcReserved = parseFloat(before.find((b: any) => b.currency === "BTC").reserved);
+
+    const res = await api("/api/v1/trades", {
+      method: "POST",
+      body: JSON.stringify({
+        type: "LIMIT", baseCurrency: "BTC", quoteCurrency: "EUR", side: "SELL", amount: 0.001, limitPrice: 1,
+      }),
+    });
+    expect(res.status).toBe(201);
+    const { data: order } = await res.json();
+
+    let rejected: any;
+    for (let i = 0; i < 50 && rejected?.status !== "REJECTED"; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      rejected = (await (await api(`/api/v1/orders/${order.id}`)).json()).data;
+    }
+    expect(rejected.status).toBe("REJECTED");
+    expect(rejected.reason).toStartWith("INSUFFICIENT_BALANCE");
+
+    const { data: after } = await (await api("/api/v1/balances")).json();
+    expect(parseFloat(after.find((b: any) => b.currency === "BTC").reserved)).toBeCloseTo(btcReserved, 8);
+  });
+
+  test("A zero-fee schedule takes the fee off again", async () => {
+    const res = await admin("/api/v1/admin/fee-schedules", {
+      accountId: ACCOUNT_ID,
+      pair: "BTC_EUR",
+      feeCurrency: "QUOTE",
+    });
+    expect(res.status).toBe(201);
+    expect((await res.json()).data.bps).toBe(0);
+
+    const trade = await sellBtcForEur(0.001);
+    expect(trade.fee).toBe("0.00000000");
+  });
+
+  test("A schedule for a pair that can't be traded is rejected", async () => {
+    const res = await admin("/api/v1/admin/fee-schedules", { pair: "EUR_EUR", bps: 5, feeCurrency: "BASE" });
+    expect(res.status).toBe(400);
+  });
+
+  test("A schedule for an unknown account is NOT_FOUND", async () => {
+    const res = await admin("/api/v1/admin/fee-schedules", { accountId: "nobody", bps: 5, feeCurrency: "QUOTE" });
+    expect(res.status).toBe(404);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Trades — RFQ flow
+// ---------------------------------------------------------------------------
+
+describe("Trades - RFQ", () => {
+  test("Full RFQ lifecycle: create quote → execute trade", async () => {
+    // Step 1: Get a quote
+    const quoteRes = await api("/api/v1/quotes", {
+      method: "POST",
+      body: JSON.stringify({
+        baseCurrency: "BTC",
+        quoteCurrency: "USDT",
+        side: "BUY",
+        amount: 0.001,
+      }),
+    });
+    expect(quoteRes.status).toBe(201);
+    const { data: quote } = await quoteRes.json();
+    expect(quote.status).toBe("OPEN");
+
+    // Step 2: Execute the trade using the quote
+    const tradeRes = await api("/api/v1/trades", {
+      method: "POST",
+      body: JSON.stringify({
+        type: "RFQ",
+        quoteId: quote.id,
+      }),
+    });
+    expect(tradeRes.status).toBe(201);
+
+    const { data: trade } = await tradeRes.json();
+    expect(trade.type).toBe("RFQ");
+    expect(trade.baseCurrency).toBe("BTC");
+    expect(trade.quoteCurrency).toBe("USDT");
+    expect(trade.side).toBe("BUY");
+
+    // The trade price should match the quoted price
+    expect(trade.price).toBe(quote.price);
+    expect(trade.baseAmount).toBe(quote.baseAmount);
+
+    // Step 3: Verify the quote is now EXECUTED
+    const quoteCheckRes = await api(`/api/v1/quotes/${quote.id}`);
+    const { data: updatedQuote } = await quoteCheckRes.json();
+    expect(updatedQuote.status).toBe("EXECUTED");
+  });
+
+  test.skipIf(!ADMIN_KEY)("An accepted last look is logged for review", async () => {
+    const quoteRes = await api("/api/v1/quotes", {
+      method: "POST",
+      body: JSON.stringify({ baseCurrency: "EUR", quoteCurrency: "USDT", side: "BUY", amount: 1 }),
+    });
+    const { data: quote } = await quoteRes.json();
+
+    const tradeRes = await api("/api/v1/trades", {
+      method: "POST",
+      body: JSON.stringify({ type: "RFQ", quoteId: quote.id }),
+    });
+    expect(tradeRes.status).toBe(201);
+
+    const res = await api(`/api/v1/admin/last-look?accountId=${ACCOUNT_ID}&decision=ACCEPTED`, {
+      headers: { "X-Admin-Key": ADMIN_KEY! },
+    });
+    expect(res.status).toBe(200);
+    const { data } = await res.json();
+    const row = data.find((d: any) => d.quoteId === quote.id);
+    expect(row.decision).toBe("ACCEPTED");
+    expect(row.side).toBe("BUY");
+    expect(row.quotedPrice).toBe(quote.price);
+    expect(row.toleranceBps).toBe(25);
+    // The replayed market barely moves, so the house keeps most of its spread
+    expect(row.lossBps).toBeLessThan(0);
+    expect(row.requoteId).toBeUndefined();
+
+    const rejected = await api("/api/v1/admin/last-look?decision=REJECTED", {
+      headers: { "X-Admin-Key": ADMIN_KEY! },
+    });
+    const { data: rejections } = await rejected.json();
+    expect(rejections.some((d: any) => d.quoteId === quote.id)).toBe(false);
+  });
+
+  test.skipIf(!ADMIN_KEY)("Last-look log rejects an unknown decision filter", async () => {
+    const res = await api("/api/v1/admin/last-look?decision=MAYBE", {
+      headers: { "X-Admin-Key": ADMIN_KEY! },
+    });
+    expect(res.status).toBe(400);
+  });
+
+  test("RFQ trade rejects already-executed quote", async () => {
+    // Create and execute a quote
+    const quoteRes = await api("/api/v1/quotes", {
+      method: "POST",
+      body: JSON.stringify({
+        baseCurrency: "EUR",
+        quoteCurrency: "USDT",
+        side: "SELL",
+        amount: 1,
+      }),
+    });
+    const { data: quote } = await quoteRes.json();
+
+    await api("/api/v1/trades", {
+      method: "POST",
+      body: JSON.stringify({ type: "RFQ", quoteId: quote.id }),
+    });
+
+    // Try to execute the same quote again
+    const res = await api("/api/v1/trades", {
+      method: "POST",
+      body: JSON.stringify({ type: "RFQ", quoteId: quote.id }),
+    });
+    expect(res.status).toBe(409);
+
+    const body = await res.json();
+    expect(body.error.code).toBe("QUOTE_ALREADY_EXECUTED");
+  });
+
+  test("RFQ trade rejects nonexistent quoteId", async () => {
+    const res = await api("/api/v1/trades", {
+      method: "POST",
+      body: JSON.stringify({
+        type: "RFQ",
+        quoteId: "00000000-0000-0000-0000-000000000000",
+      }),
+    });
+    expect(res.status).toBe(404);
+  });
+
+  test("RFQ trade rejects quote from another account", async () => {
+    // Create quote under demo-account
+    const quoteRes = await api("/api/v1/quotes", {
+      method: "POST",
+      body: JSON.stringify({
+        baseCurrency: "EUR",
+        quoteCurrency: "USDT",
+        side: "BUY",
+        amount: 1,
+      }),
+    });
+    const { data: quote } = await quoteRes.json();
+
+    // Try to execute with a different account
+    const res = await fetch(`${BASE_URL}/api/v1/trades`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Account-Id": "attacker-account",
+        "X-Idempotency-Key": crypto.randomUUID(),
+      },
+      body: JSON.stringify({ type: "RFQ", quoteId: quote.id }),
+    });
+    expect(res.status).toBe(404);
+  });
+
+  test("RFQ trade rejects valid quote after TTL has passed", async () => {
+    // Create a quote
+    const quoteRes = await api("/api/v1/quotes", {
+      method: "POST",
+      body: JSON.stringify({
+        baseCurrency: "BTC",
+        quoteCurrency: "USDT",
+        side: "SELL",
+        amount: 0.01,
+      }),
+    });
+    const { data: quote } = await quoteRes.json();
+
+    // The TTL for a quote is 30 seconds. Wait 31 seconds to ensure it expires.
+    await new Promise((resolve) => setTimeout(resolve, 31000));
+
+    // The sweep has marked it EXPIRED, and left quotes still inside their TTL OPEN
+    const { data: fresh } = await (await api("/api/v1/quotes", {
+      method: "POST",
+      body: JSON.stringify({ baseCurrency: "BTC", quoteCurrency: "USDT", side: "SELL", amount: 0.01 }),
+    })).json();
+    const ids = async (status: string) =>
+      (await (await api(`/api/v1/quotes?status=${status}&from=${quote.createdAt}`)).json()).data.map((q: any) => q.id);
+    expect(await ids("EXPIRED")).toContain(quote.id);
+    expect(await ids("OPEN")).toContain(fresh.id);
+    expect(await ids("OPEN")).not.toContain(quote.id);
+
+    // Attempt to execute the trade using the expired quote
+    const res = await api("/api/v1/trades", {
+      method: "POST",
+      body: JSON.stringify({ type: "RFQ", quoteId: quote.id }),
+    });
+
+    // The API should reject it with 400 and QUOTE_EXPIRED
+    expect(res.status).toBe(400);
+
+    const body = await res.json();
+    expect(body.error.code).toBe("QUOTE_EXPIRED");
+  }, 35000); // Give the test 35 seconds to run, as we wait for 31 seconds
+});
+
+// ---------------------------------------------------------------------------
+// Trade History
+// ---------------------------------------------------------------------------
+
+describe("Trade History", () => {
+  test("GET /api/v1/trades returns trade list", async () => {
+    const res = await api("/api/v1/trades");
+    expect(res.status).toBe(200);
+
+    const { data } = await res.json();
+    expect(Array.isArray(data)).toBe(true);
+    expect(data.length).toBeGreaterThanOrEqual(1); // we made trades above
+
+    // Verify shape of each trade
     for (const trade of data) {
       expect(trade.id).toBeDefined();
       expect(["MARKET", "RFQ"]).toContain(trade.type);
@@ -540,6 +1321,9 @@ describe("Trade History", () => {
 
     const { data } = await res.json();
     expect(data.id).toBe(tradeId);
+    expect(typeof data.venue).toBe("string");
+    expect(data.venueQuotes.length).toBeGreaterThan(0);
+    expect(data.venueQuotes[0].pair).toBeDefined();
   });
 
   test("GET /api/v1/trades/:id returns 404 for nonexistent trade", async () => {
@@ -559,6 +1343,503 @@ describe("Trade History", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Limit orders
+// ---------------------------------------------------------------------------
+
+describe("Orders - Limit", () => {
+  function limitOrder(side: string, amount: number, limitPrice: number, extra: Record<string, unknown> = {}) {
+    return api("/api/v1/trades", {
+      method: "POST",
+      body: JSON.stringify({
+        type: "LIMIT",
+        baseCurrency: "EUR",
+        quoteCurrency: "USDT",
+        side,
+        amount,
+        limitPrice,
+        ...extra,
+      }),
+    });
+  }
+
+  async function balance(currency: string) {
+    const { data } = await (await api("/api/v1/balances")).json();
+    return data.find((b: any) => b.currency === currency);
+  }
+
+  async function waitForStatus(orderId: string, status: string) {
+    for (let i = 0; i < 50; i++) {
+      const { data } = await (await api(`/api/v1/orders/${orderId}`)).json();
+      if (data.status === status) return data;
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    throw new Error(`order ${orderId} never reached ${status}`);
+  }
+
+  test("LIMIT BUY below the market rests and reserves its notional", async () => {
+    const before = await balance("USDT");
+    const res = await limitOrder("BUY", 10, 0.5);
+    expect(res.status).toBe(201);
+
+    const { data: order } = await res.json();
+    expect(order.type).toBe("LIMIT");
+    expect(order.status).toBe("NEW");
+    expect(order.reservedCurrency).toBe("USDT");
+    expect(parseFloat(order.reservedAmount)).toBeCloseTo(5, 6);
+
+    const after = await balance("USDT");
+    expect(parseFloat(after.reserved) - parseFloat(before.reserved)).toBeCloseTo(5, 6);
+    expect(parseFloat(after.amount)).toBeCloseTo(parseFloat(before.amount), 6);
+
+    const listRes = await api("/api/v1/orders");
+    const { data: orders } = await listRes.json();
+    expect(orders.map((o: any) => o.id)).toContain(order.id);
+
+    // Cancel releases the reservation
+    const cancelRes = await api(`/api/v1/orders/${order.id}`, { method: "DELETE" });
+    expect(cancelRes.status).toBe(200);
+    const { data: cancelled } = await cancelRes.json();
+    expect(cancelled.status).toBe("CANCELLED");
+    expect(parseFloat((await balance("USDT")).reserved)).toBeCloseTo(parseFloat(before.reserved), 6);
+  });
+
+  test("Cancelling a closed order returns 409", async () => {
+    const { data: order } = await (await limitOrder("SELL", 1, 1_000)).json();
+    await api(`/api/v1/orders/${order.id}`, { method: "DELETE" });
+
+    const res = await api(`/api/v1/orders/${order.id}`, { method: "DELETE" });
+    expect(res.status).toBe(409);
+
+    const body = await res.json();
+    expect(body.error.code).toBe("ORDER_NOT_OPEN");
+  });
+
+  test("LIMIT BUY the market crosses fills as a LIMIT trade", async () => {
+    const { data: order } = await (await limitOrder("BUY", 1, 5)).json();
+    const filled = await waitForStatus(order.id, "FILLED");
+    expect(filled.tradeId).toBeDefined();
+
+    const res = await api(`/api/v1/trades/${filled.tradeId}`);
+    const { data: trade } = await res.json();
+    expect(trade.type).toBe("LIMIT");
+    expect(trade.orderId).toBe(order.id);
+    expect(parseFloat(trade.price)).toBeLessThanOrEqual(5);
+  });
+
+  test("Reserved funds cannot be spent by another trade", async () => {
+    const usdt = await balance("USDT");
+    const hold = Math.floor(parseFloat(usdt.available)) - 1;
+    const { data: order } = await (await limitOrder("BUY", 1, hold, { baseCurrency: "BTC" })).json();
+    expect(order.status).toBe("NEW");
+
+    try {
+      const res = await api("/api/v1/trades", {
+        method: "POST",
+        body: JSON.stringify({
+          type: "MARKET",
+          baseCurrency: "EUR",
+          quoteCurrency: "USDT",
+          side: "BUY",
+          amount: 10,
+        }),
+      });
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error.code).toBe("INSUFFICIENT_BALANCE");
+    } finally {
+      await api(`/api/v1/orders/${order.id}`, { method: "DELETE" });
+    }
+  });
+
+  test("LIMIT order larger than the available balance is rejected", async () => {
+    const res = await limitOrder("SELL", 1_000_000, 1);
+    expect(res.status).toBe(400);
+
+    const body = await res.json();
+    expect(body.error.code).toBe("INSUFFICIENT_BALANCE");
+  });
+
+  test("LIMIT order with a past expiresAt is rejected", async () => {
+    const res = await limitOrder("BUY", 1, 0.5, { expiresAt: Date.now() - 1_000 });
+    expect(res.status).toBe(400);
+  });
+
+  test("Order from another account returns 404", async () => {
+    const { data: order } = await (await limitOrder("BUY", 1, 0.5)).json();
+    const res = await fetch(`${BASE_URL}/api/v1/orders/${order.id}`, {
+      headers: { "X-Account-Id": "other-account" },
+    });
+    expect(res.status).toBe(404);
+    await api(`/api/v1/orders/${order.id}`, { method: "DELETE" });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Conditional orders
+// ---------------------------------------------------------------------------
+
+describe("Orders - Conditional", () => {
+  function conditionalOrder(type: string, side: string, amount: number, extra: Record<string, unknown>) {
+    return api("/api/v1/trades", {
+      method: "POST",
+      body: JSON.stringify({
+        type,
+        baseCurrency: "EUR",
+        quoteCurrency: "USDT",
+        side,
+        amount,
+        ...extra,
+      }),
+    });
+  }
+
+  async function waitForStatus(orderId: string, status: string) {
+    for (let i = 0; i < 50; i++) {
+      const { data } = await (await api(`/api/v1/orders/${orderId}`)).json();
+      if (data.status === status) return data;
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    throw new Error(`order ${orderId} never reached ${status}`);
+  }
+
+  test("STOP_LOSS SELL below the market rests without reserving", async () => {
+    const res = await conditionalOrder("STOP_LOSS", "SELL", 10, { triggerPrice: 0.5 });
+    expect(res.status).toBe(201);
+
+    const { data: order } = await res.json();
+    expect(order.type).toBe("STOP_LOSS");
+    expect(order.status).toBe("NEW");
+    expect(order.triggerPrice).toBe("0.50000000");
+    expect(order.limitPrice).toBeUndefined();
+    expect(order.reservedAmount).toBe("0.00000000");
+
+    const cancelRes = await api(`/api/v1/orders/${order.id}`, { method: "DELETE" });
+    expect(cancelRes.status).toBe(200);
+  });
+
+  test("A conditional order needs no balance in the currency until it triggers", async () => {
+    // The house fee account is the seeded account that holds no BTC
+    const headers = { "Content-Type": "application/json", "X-Account-Id": "house-fees" };
+    const res = await fetch(`${BASE_URL}/api/v1/trades`, {
+      method: "POST",
+      headers: { ...headers, "X-Idempotency-Key": crypto.randomUUID() },
+      body: JSON.stringify({
+        type: "STOP_LOSS", baseCurrency: "BTC", quoteCurrency: "USDT", side: "SELL", amount: 1, triggerPrice: 1,
+      }),
+    });
+    expect(res.status).toBe(201);
+    const { data: order } = await res.json();
+    expect(order.status).toBe("NEW");
+
+    const cancelRes = await fetch(`${BASE_URL}/api/v1/orders/${order.id}`, { method: "DELETE", headers });
+    expect(cancelRes.status).toBe(200);
+  });
+
+  test("TAKE_PROFIT the market has reached fills through a MARKET trade", async () => {
+    const { data: order } = await (
+      await conditionalOrder("TAKE_PROFIT", "SELL", 1, { triggerPrice: 0.5 })
+    ).json();
+    const filled = await waitForStatus(order.id, "FILLED");
+    expect(filled.tradeId).toBeDefined();
+
+    const res = await api(`/api/v1/trades/${filled.tradeId}`);
+    const { data: trade } = await res.json();
+    expect(trade.type).toBe("MARKET");
+    expect(trade.orderId).toBe(order.id);
+    expect(trade.side).toBe("SELL");
+  });
+
+  test("Triggered order whose trade fails is REJECTED with a reason", async () => {
+    const { data: order } = await (
+      await conditionalOrder("STOP_LOSS", "SELL", 1_000_000, { triggerPrice: 5 })
+    ).json();
+    const rejected = await waitForStatus(order.id, "REJECTED");
+    expect(rejected.reason).toBeDefined();
+    expect(rejected.tradeId).toBeUndefined();
+  });
+
+  test("OCO places a linked stop and target; cancelling one cancels both", async () => {
+    const res = await conditionalOrder("OCO", "SELL", 10, { stopPrice: 0.5, takeProfitPrice: 5 });
+    expect(res.status).toBe(201);
+
+    const { data: [stop, target] } = await res.json();
+    expect(stop.type).toBe("STOP_LOSS");
+    expect(target.type).toBe("TAKE_PROFIT");
+    expect(stop.ocoId).toBe(target.id);
+    expect(target.ocoId).toBe(stop.id);
+
+    await api(`/api/v1/orders/${target.id}`, { method: "DELETE" });
+    const { data: sibling } = await (await api(`/api/v1/orders/${stop.id}`)).json();
+    expect(sibling.status).toBe("CANCELLED");
+  });
+
+  test("OCO leg that triggers cancels the other", async () => {
+    const { data: [stop, target] } = await (
+      await conditionalOrder("OCO", "SELL", 1, { stopPrice: 0.4, takeProfitPrice: 0.5 })
+    ).json();
+    await waitForStatus(target.id, "FILLED");
+
+    const { data: sibling } = await (await api(`/api/v1/orders/${stop.id}`)).json();
+    expect(sibling.status).toBe("CANCELLED");
+  });
+
+  test("OCO leg whose trade is rejected leaves the other armed", async () => {
+    // The target triggers at once, but the replayed book can't fill the trade
+    const { data: [stop, target] } = await (
+      await conditionalOrder("OCO", "SELL", 1_000_000, { stopPrice: 0.4, takeProfitPrice: 0.5 })
+    ).json();
+    const rejected = await waitForStatus(target.id, "REJECTED");
+    expect(rejected.reason).toContain("INSUFFICIENT_LIQUIDITY");
+
+    const { data: sibling } = await (await api(`/api/v1/orders/${stop.id}`)).json();
+    expect(sibling.status).toBe("NEW");
+
+    const cancelRes = await api(`/api/v1/orders/${stop.id}`, { method: "DELETE" });
+    expect(cancelRes.status).toBe(200);
+  });
+
+  test("OCO with the stop on the wrong side of the target is rejected", async () => {
+    const res = await conditionalOrder("OCO", "SELL", 1, { stopPrice: 5, takeProfitPrice: 0.5 });
+    expect(res.status).toBe(400);
+
+    const body = await res.json();
+    expect(body.error.code).toBe("VALIDATION_ERROR");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Order management
+// ---------------------------------------------------------------------------
+
+describe("Orders - Lifecycle", () => {
+  function placeOrder(body: Record<string, unknown>) {
+    return api("/api/v1/orders", {
+      method: "POST",
+      body: JSON.stringify({ baseCurrency: "EUR", quoteCurrency: "USDT", side: "BUY", ...body }),
+    });
+  }
+
+  async function events(orderId: string) {
+    const { data } = await (await api(`/api/v1/orders/${orderId}/events`)).json();
+    return data.map((e: any) => e.type);
+  }
+
+  test("MARKET order fills within the request and its trade is the fill", async () => {
+    const clientOrderId = `mkt-${crypto.randomUUID()}`;
+    const res = await placeOrder({ type: "MARKET", amount: 1, clientOrderId });
+    expect(res.status).toBe(201);
+
+    const { data: order } = await res.json();
+    expect(order.type).toBe("MARKET");
+    expect(order.status).toBe("FILLED");
+    expect(order.clientOrderId).toBe(clientOrderId);
+
+    const { data: trade } = await (await api(`/api/v1/trades/${order.tradeId}`)).json();
+    expect(trade.orderId).toBe(order.id);
+    expect(await events(order.id)).toEqual(["PLACED", "FILLED"]);
+  });
+
+  test("MARKET order the trade can't fill comes back REJECTED", async () => {
+    const res = await placeOrder({ type: "MARKET", amount: 1, limitPrice: 0.5 });
+    expect(res.status).toBe(201);
+
+    const { data: order } = await res.json();
+    expect(order.status).toBe("REJECTED");
+    expect(order.reason).toContain("LIMIT_PRICE_BREACHED");
+    expect(order.tradeId).toBeUndefined();
+  });
+
+  test("MARKET order sized in the quote currency is rejected", async () => {
+    const res = await placeOrder({ type: "MARKET", amount: 10, amountCurrency: "USDT" });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe("VALIDATION_ERROR");
+  });
+
+  test("Duplicate clientOrderId returns 409 and can be looked up", async () => {
+    const clientOrderId = `lmt-${crypto.randomUUID()}`;
+    const first = await placeOrder({ type: "LIMIT", amount: 1, limitPrice: 0.5, clientOrderId });
+    expect(first.status).toBe(201);
+    const { data: order } = await first.json();
+
+    const second = await placeOrder({ type: "LIMIT", amount: 1, limitPrice: 0.5, clientOrderId });
+    expect(second.status).toBe(409);
+    expect((await second.json()).error.code).toBe("DUPLICATE_CLIENT_ORDER_ID");
+
+    const { data: found } = await (await api(`/api/v1/orders?clientOrderId=${clientOrderId}`)).json();
+    expect(found.map((o: any) => o.id)).toEqual([order.id]);
+
+    await api(`/api/v1/orders/${order.id}`, { method: "DELETE" });
+  });
+
+  test("PATCH amends a resting LIMIT order and re-sizes its reservation", async () => {
+    const { data: order } = await (await placeOrder({ type: "LIMIT", amount: 10, limitPrice: 0.5 })).json();
+    expect(parseFloat(order.reservedAmount)).toBeCloseTo(5, 6);
+
+    const res = await api(`/api/v1/orders/${order.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ amount: 20, limitPrice: 0.6 }),
+    });
+    expect(res.status).toBe(200);
+
+    const { data: amended } = await res.json();
+    expect(amended.status).toBe("NEW");
+    expect(amended.baseAmount).toBe("20.00000000");
+    expect(parseFloat(amended.reservedAmount)).toBeCloseTo(12, 6);
+    expect(amended.version).toBe(order.version + 1);
+
+    await api(`/api/v1/orders/${order.id}`, { method: "DELETE" });
+    expect(await events(order.id)).toEqual(["PLACED", "AMENDED", "CANCELLED"]);
+  });
+
+  test("PATCH rejects fields that don't apply and closed orders", async () => {
+    const { data: order } = await (await placeOrder({ type: "LIMIT", amount: 1, limitPrice: 0.5 })).json();
+
+    const wrongField = await api(`/api/v1/orders/${order.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ triggerPrice: 1 }),
+    });
+    expect(wrongField.status).toBe(400);
+
+    const empty = await api(`/api/v1/orders/${order.id}`, { method: "PATCH", body: JSON.stringify({}) });
+    expect(empty.status).toBe(400);
+
+    await api(`/api/v1/orders/${order.id}`, { method: "DELETE" });
+    const closed = await api(`/api/v1/orders/${order.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ amount: 2 }),
+    });
+    expect(closed.status).toBe(409);
+    expect((await closed.json()).error.code).toBe("ORDER_NOT_OPEN");
+  });
+
+  test("Filled MARKET order cannot be cancelled", async () => {
+    const { data: order } = await (await placeOrder({ type: "MARKET", amount: 1 })).json();
+    const res = await api(`/api/v1/orders/${order.id}`, { method: "DELETE" });
+    expect(res.status).toBe(400);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Algo orders
+// ---------------------------------------------------------------------------
+
+describe("Algo Orders", () => {
+  function algoOrder(body: Record<string, unknown>) {
+    return api("/api/v1/algo-orders", {
+      method: "POST",
+      body: JSON.stringify({ baseCurrency: "EUR", quoteCurrency: "USDT", side: "BUY", ...body }),
+    });
+  }
+
+  async function waitForAlgoStatus(algoId: string, status: string) {
+    for (let i = 0; i < 20; i++) {
+      const { data } = await (await api(`/api/v1/algo-orders/${algoId}`)).json();
+      if (data.status === status) return data;
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+    throw new Error(`algo order ${algoId} never reached ${status}`);
+  }
+
+  test("TWAP slices the amount evenly and reports progress", async () => {
+    const res = await algoOrder({ strategy: "TWAP", amount: 3, durationMs: 3_000, slices: 3 });
+    expect(res.status).toBe(201);
+
+    const { data: algo } = await res.json();
+    expect(algo.status).toBe("RUNNING");
+    expect(algo.schedule).toEqual(["1.00000000", "1.00000000", "1.00000000"]);
+    expect(algo.intervalMs).toBe(1_000);
+
+    const done = await waitForAlgoStatus(algo.id, "COMPLETED");
+    expect(done.filledAmount).toBe("3.00000000");
+    expect(done.remainingAmount).toBe("0.00000000");
+    expect(parseFloat(done.averagePrice)).toBeGreaterThan(0);
+    expect(done.nextSliceAt).toBeNull();
+
+    const { data: children } = await (await api(`/api/v1/orders?parentId=${algo.id}`)).json();
+    expect(children).toHaveLength(3);
+    expect(children.every((c: any) => c.type === "MARKET" && c.status === "FILLED")).toBe(true);
+  });
+
+  test("VWAP follows the given volume profile", async () => {
+    const res = await algoOrder({
+      strategy: "VWAP",
+      amount: 2,
+      durationMs: 2_000,
+      slices: 2,
+      volumeProfile: [1, 3],
+    });
+    expect(res.status).toBe(201);
+
+    const { data: algo } = await res.json();
+    expect(algo.schedule).toEqual(["0.50000000", "1.50000000"]);
+    await waitForAlgoStatus(algo.id, "COMPLETED");
+  });
+
+  test("Pause holds the schedule and cancel stops it with quantity left", async () => {
+    const { data: algo } = await (
+      await algoOrder({ strategy: "TWAP", amount: 4, durationMs: 120_000, slices: 4 })
+    ).json();
+
+    const pauseRes = await api(`/api/v1/algo-orders/${algo.id}/pause`, { method: "POST" });
+    expect(pauseRes.status).toBe(200);
+    expect((await pauseRes.json()).data.status).toBe("PAUSED");
+
+    const resumeRes = await api(`/api/v1/algo-orders/${algo.id}/resume`, { method: "POST" });
+    expect((await resumeRes.json()).data.status).toBe("RUNNING");
+
+    const cancelRes = await api(`/api/v1/algo-orders/${algo.id}`, { method: "DELETE" });
+    expect(cancelRes.status).toBe(200);
+    const { data: cancelled } = await cancelRes.json();
+    expect(cancelled.status).toBe("CANCELLED");
+    expect(parseFloat(cancelled.remainingAmount)).toBeGreaterThan(0);
+
+    const again = await api(`/api/v1/algo-orders/${algo.id}/resume`, { method: "POST" });
+    expect(again.status).toBe(409);
+  });
+
+  test.skipIf(!ADMIN_KEY)("Corrected and cancelled slices count once, or not at all, towards progress", async () => {
+    const { data: algo } = await (
+      await algoOrder({ strategy: "TWAP", amount: 2, durationMs: 2_000, slices: 2 })
+    ).json();
+    await waitForAlgoStatus(algo.id, "COMPLETED");
+
+    const { data: children } = await (await api(`/api/v1/orders?parentId=${algo.id}`)).json();
+    const [first, second] = children.map((c: any) => c.tradeId);
+    const revise = (tradeId: string, action: string, body: Record<string, unknown>) =>
+      fetch(`${BASE_URL}/api/v1/admin/trades/${tradeId}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Admin-Key": ADMIN_KEY! },
+        body: JSON.stringify(body),
+      });
+
+    expect((await revise(first, "correct", { baseAmount: 0.5, reason: "slice overfilled" })).status).toBe(201);
+    let { data: progress } = await (await api(`/api/v1/algo-orders/${algo.id}`)).json();
+    expect(progress.filledAmount).toBe("1.50000000");
+    expect(progress.remainingAmount).toBe("0.50000000");
+
+    expect((await revise(second, "cancel", { reason: "slice booked in error" })).status).toBe(200);
+    ({ data: progress } = await (await api(`/api/v1/algo-orders/${algo.id}`)).json());
+    expect(progress.filledAmount).toBe("0.50000000");
+  });
+
+  test("Slices closer than the minimum interval are rejected", async () => {
+    const res = await algoOrder({ strategy: "TWAP", amount: 1, durationMs: 1_000, slices: 10 });
+    expect(res.status).toBe(400);
+  });
+
+  test("VWAP profile without one weight per slice is rejected", async () => {
+    const res = await algoOrder({
+      strategy: "VWAP",
+      amount: 1,
+      durationMs: 10_000,
+      slices: 2,
+      volumeProfile: [1, 2, 3],
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Insufficient balance
 // ---------------------------------------------------------------------------
@@ -572,7 +1853,7 @@ describe("Insufficient Balance", () => {
         baseCurrency: "BTC",
         quoteCurrency: "USDT",
         side: "BUY",
-        amount: 999_999, // way more BTC than we can afford
+        amount: 1, // more BTC than the USDT balance can pay for
       }),
     });
     expect(res.status).toBe(400);
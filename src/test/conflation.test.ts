@@ -0,0 +1,97 @@
+import { describe, test, expect } from "bun:test";
+import { FrameConflator, type BufferedSocket } from "../conflation";
+
+// A socket whose queued byte count the test sets, recording what was sent
+function fakeSocket() {
+  const socket = {
+    buffered: 0,
+    sent: [] as string[],
+    send(data: string) {
+      socket.sent.push(data);
+    },
+    getBufferedAmount() {
+      return socket.buffered;
+    },
+  };
+  return socket satisfies BufferedSocket;
+}
+
+describe("FrameConflator", () => {
+  test("sends straight through while the socket has room", () => {
+    const ws = fakeSocket();
+    const frames = new FrameConflator(100);
+
+    frames.push(ws, "EUR_USDT", "eur-1");
+    frames.push(ws, "EUR_USDT", "eur-2");
+    expect(ws.sent).toEqual(["eur-1", "eur-2"]);
+    expect(frames.held).toBe(0);
+  });
+
+  test("keeps only the latest frame per key while backpressured", () => {
+    const ws = fakeSocket();
+    const frames = new FrameConflator(100);
+
+    ws.buffered = 101;
+    frames.push(ws, "EUR_USDT", "eur-1");
+    frames.push(ws, "BTC_USDT", "btc-1");
+    frames.push(ws, "EUR_USDT", "eur-2");
+    frames.push(ws, "EUR_USDT", "eur-3");
+    expect(ws.sent).toEqual([]);
+    expect(frames.held).toBe(2);
+
+    ws.buffered = 0;
+    frames.drain(ws);
+    expect(ws.sent).toEqual(["eur-3", "btc-1"]);
+    expect(frames.held).toBe(0);
+  });
+
+  test("holds new frames behind held ones so a key never jumps ahead", () => {
+    const ws = fakeSocket();
+    const frames = new FrameConflator(100);
+
+    ws.buffered = 101;
+    frames.push(ws, "EUR_USDT", "eur-1");
+    ws.buffered = 0;
+    frames.push(ws, "BTC_USDT", "btc-1");
+    expect(ws.sent).toEqual([]);
+
+    frames.drain(ws);
+    expect(ws.sent).toEqual(["eur-1", "btc-1"]);
+  });
+
+  test("drain stops as soon as the socket is over the limit again", () => {
+    const ws = fakeSocket();
+    const frames = new FrameConflator(100);
+
+    ws.buffered = 101;
+    frames.push(ws, "EUR_USDT", "eur-1");
+    frames.push(ws, "BTC_USDT", "btc-1");
+
+    ws.buffered = 0;
+    ws.send = (data: string) => {
+      ws.sent.push(data);
+      ws.buffered = 101;
+    };
+    frames.drain(ws);
+    expect(ws.sent).toEqual(["eur-1"]);
+    expect(frames.held).toBe(1);
+
+    ws.buffered = 0;
+    frames.drain(ws);
+    expect(ws.sent).toEqual(["eur-1", "btc-1"]);
+  });
+
+  test("a dropped key's held frame is never sent", () => {
+    const ws = fakeSocket();
+    const frames = new FrameConflator(100);
+
+    ws.buffered = 101;
+    frames.push(ws, "EUR_USDT", "eur-1");
+    frames.push(ws, "BTC_USDT", "btc-1");
+    frames.drop("EUR_USDT");
+
+    ws.buffered = 0;
+    frames.drain(ws);
+    expect(ws.sent).toEqual(["btc-1"]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, test, expect } from "bun:test";
+import { applyRoute, composeRoute, findRoute, legSide } from "../cross-rates";
+import { SUPPORTED_PAIRS } from "../types";
+import { toScaled } from "../money";
+
+const [EURUSDT, BTCUSDT] = SUPPORTED_PAIRS;
+
+const EUR_BOOK = { bid: toScaled(1.17), ask: toScaled(1.18) };
+const BTC_BOOK = { bid: toScaled(60_000), ask: toScaled(60_010) };
+
+describe("findRoute", () => {
+  test("listed pair is a single direct leg", () => {
+    expect(findRoute("EUR", "USDT")).toEqual([{ pair: EURUSDT, inverted: false }]);
+  });
+
+  test("reversed listed pair is a single inverted leg", () => {
+    expect(findRoute("USDT", "EUR")).toEqual([{ pair: EURUSDT, inverted: true }]);
+    expect(findRoute("USDT", "BTC")).toEqual([{ pair: BTCUSDT, inverted: true }]);
+  });
+
+  test("crosses through the common USDT leg", () => {
+    expect(findRoute("EUR", "BTC")).toEqual([
+      { pair: EURUSDT, inverted: false },
+      { pair: BTCUSDT, inverted: true },
+    ]);
+    expect(findRoute("BTC", "EUR")).toEqual([
+      { pair: BTCUSDT, inverted: false },
+      { pair: EURUSDT, inverted: true },
+    ]);
+  });
+
+  test("returns null when the currencies are not connected", () => {
+    expect(findRoute("EUR", "BTC", [EURUSDT])).toBeNull();
+    expect(findRoute("EUR", "BTC", SUPPORTED_PAIRS, 1)).toBeNull();
+  });
+});
+
+describe("legSide", () => {
+  test("inverted legs trade the opposite side", () => {
+    const [eurLeg, btcLeg] = findRoute("EUR", "BTC")!;
+    expect(legSide(eurLeg, "BUY")).toBe("BUY");
+    expect(legSide(btcLeg, "BUY")).toBe("SELL");
+    expect(legSide(btcLeg, "SELL")).toBe("BUY");
+  });
+});
+
+describe("composeRoute", () => {
+  test("direct leg passes the book through", () => {
+    expect(composeRoute(findRoute("EUR", "USDT")!, [EUR_BOOK])).toEqual(EUR_BOOK);
+  });
+
+  test("inverted pair takes the reciprocal with bid and ask swapped", () => {
+    const { bid, ask } = composeRoute(findRoute("USDT", "EUR")!, [EUR_BOOK]);
+    expect(bid).toBe(84_745_763); // 1 / 1.18
+    expect(ask).toBe(85_470_085); // 1 / 1.17
+  });
+
+  test("EUR/BTC bid sells EUR at the EUR bid and buys BTC at the BTC ask", () => {
+    const { bid, ask } = composeRoute(findRoute("EUR", "BTC")!, [EUR_BOOK, BTC_BOOK]);
+    expect(bid).toBe(1950);  // 1.17 / 60010
+    expect(ask).toBe(1967);  // 1.18 / 60000
+    expect(bid).toBeLessThan(ask);
+  });
+
+  test("BTC/EUR is rounded once from exact products", () => {
+    const { bid, ask } = composeRoute(findRoute("BTC", "EUR")!, [BTC_BOOK, EUR_BOOK]);
+    expect(bid).toBe(5_084_745_762_712); // 60000 / 1.18
+    expect(ask).toBe(5_129_059_829_060); // 60010 / 1.17
+  });
+});
+
+describe("applyRoute", () => {
+  test("direct leg multiplies by the leg price", () => {
+    const route = findRoute("EUR", "USDT")!;
+    expect(applyRoute(toScaled(100), route, [toScaled(1.18)])).toBe(toScaled(118));
+  });
+
+  test("inverted leg divides by the leg price", () => {
+    // BUY 1000 USDT_BTC sells BTC at the BTC bid: pay 1000 / 60000 BTC
+    const buy = findRoute("USDT", "BTC")!;
+    expect(legSide(buy[0], "BUY")).toBe("SELL");
+    expect(applyRoute(toScaled(1000), buy, [BTC_BOOK.bid])).toBe(1_666_667);
+
+    // SELL 1000 USDT_BTC buys BTC at the BTC ask: receive 1000 / 60010 BTC
+    expect(legSide(buy[0], "SELL")).toBe("BUY");
+    expect(applyRoute(toScaled(1000), buy, [BTC_BOOK.ask])).toBe(1_666_389);
+  });
+
+  test("inverted amount is exact where the rounded price is not", () => {
+    const route = findRoute("USDT", "BTC")!;
+    const price = applyRoute(toScaled(1), route, [BTC_BOOK.bid]);
+    expect(price).toBe(1667); // 0.00001667 BTC per USDT, rounded
+    expect(applyRoute(toScaled(30_000), route, [BTC_BOOK.bid])).toBe(toScaled(0.5));
+  });
+
+  test("cross converts through both legs", () => {
+    // SELL 100 EUR_BTC: sell EUR at 1.17, buy BTC at 60010
+    const route = findRoute("EUR", "BTC")!;
+    expect(applyRoute(toScaled(100), route, [EUR_BOOK.bid, BTC_BOOK.ask])).toBe(194_968);
+  });
+});
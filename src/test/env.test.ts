@@ -0,0 +1,47 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { envNumber } from "../env";
+
+const NAME = "ENV_TEST_SETTING";
+
+afterEach(() => {
+  delete process.env[NAME];
+});
+
+function read(raw: string | undefined, rule: Parameters<typeof envNumber>[2]) {
+  if (raw === undefined) delete process.env[NAME];
+  else process.env[NAME] = raw;
+  return envNumber(NAME, 42, rule);
+}
+
+describe("envNumber", () => {
+  test("falls back when the variable isn't set", () => {
+    expect(read(undefined, { unit: "ms", whole: true })).toBe(42);
+  });
+
+  test("reads a valid value", () => {
+    expect(read("250", { unit: "ms", whole: true })).toBe(250);
+    expect(read("2.5", { unit: "bps", allowZero: true })).toBe(2.5);
+    expect(read("0", { unit: "ms", whole: true, allowZero: true })).toBe(0);
+  });
+
+  test("rejects values that aren't numbers", () => {
+    for (const raw of ["", " ", "5bps", "NaN", "Infinity"]) {
+      expect(() => read(raw, { unit: "bps", allowZero: true })).toThrow(
+        `${NAME} must be a non-negative number of bps, got "${raw}"`,
+      );
+    }
+  });
+
+  test("rejects fractions where whole numbers are required", () => {
+    expect(() => read("1.5", { unit: "ms", whole: true })).toThrow(
+      `${NAME} must be a positive whole number of ms, got "1.5"`,
+    );
+  });
+
+  test("rejects zero unless allowed, and negatives always", () => {
+    expect(() => read("0", { unit: "requests", whole: true })).toThrow("positive whole number of requests");
+    expect(() => read("-1", { unit: "ms", whole: true, allowZero: true })).toThrow(
+      "non-negative whole number of ms",
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, test, expect } from "bun:test";
+import { computeFee, selectFeeSchedule, tradeFeeCurrency, type FeeSchedule } from "../fees";
+import { toScaled } from "../money";
+
+function schedule(overrides: Partial<FeeSchedule>): FeeSchedule {
+  return { accountId: null, pair: null, bps: 10, flatFee: 0, minFee: 0, feeCurrency: "QUOTE", ...overrides };
+}
+
+describe("selectFeeSchedule", () => {
+  const DEFAULT = schedule({ bps: 10 });
+  const EUR = schedule({ pair: "EUR_USDT", bps: 8 });
+  const ACCOUNT = schedule({ accountId: "acct-1", bps: 5 });
+  const ACCOUNT_EUR = schedule({ accountId: "acct-1", pair: "EUR_USDT", bps: 2 });
+  const ALL = [DEFAULT, EUR, ACCOUNT, ACCOUNT_EUR];
+
+  test("an account's pair schedule beats everything", () => {
+    expect(selectFeeSchedule(ALL, "acct-1", "EUR_USDT")).toBe(ACCOUNT_EUR);
+  });
+
+  test("an account schedule beats a default pair schedule", () => {
+    expect(selectFeeSchedule([DEFAULT, EUR, ACCOUNT], "acct-1", "EUR_USDT")).toBe(ACCOUNT);
+  });
+
+  test("other accounts and pairs fall back to the defaults", () => {
+    expect(selectFeeSchedule(ALL, "acct-2", "EUR_USDT")).toBe(EUR);
+    expect(selectFeeSchedule(ALL, "acct-2", "BTC_USDT")).toBe(DEFAULT);
+  });
+
+  test("the first of equally specific schedules wins", () => {
+    const newer = schedule({ pair: "EUR_USDT", bps: 6 });
+    expect(selectFeeSchedule([newer, EUR, DEFAULT], "acct-2", "EUR_USDT")).toBe(newer);
+  });
+
+  test("a pair schedule applies to the inverted pair too", () => {
+    expect(selectFeeSchedule(ALL, "acct-1", "USDT_EUR")).toBe(ACCOUNT_EUR);
+    expect(selectFeeSchedule(ALL, "acct-2", "USDT_EUR")).toBe(EUR);
+  });
+
+  test("a zero-fee schedule overrides a less specific one", () => {
+    const waived = schedule({ accountId: "acct-2", bps: 0 });
+    expect(selectFeeSchedule([...ALL, waived], "acct-2", "EUR_USDT")).toBe(waived);
+    expect(computeFee(waived, toScaled(100), toScaled(108))).toBe(0);
+  });
+
+  test("no schedule applies", () => {
+    expect(selectFeeSchedule([ACCOUNT], "acct-2", "BTC_USDT")).toBeNull();
+  });
+});
+
+describe("computeFee", () => {
+  test("charges bps of the fee currency's leg", () => {
+    expect(computeFee(schedule({ bps: 10 }), toScaled(1), toScaled(1000))).toBe(toScaled(1));
+    expect(computeFee(schedule({ bps: 10, feeCurrency: "BASE" }), toScaled(2), toScaled(1000))).toBe(toScaled(0.002));
+  });
+
+  test("rounds the bps part up to the next unit", () => {
+    expect(computeFee(schedule({ bps: 1 }), 0, 1)).toBe(1);
+  });
+
+  test("adds the flat fee and applies the minimum", () => {
+    expect(computeFee(schedule({ bps: 10, flatFee: toScaled(0.5) }), 0, toScaled(1000))).toBe(toScaled(1.5));
+    expect(computeFee(schedule({ bps: 10, minFee: toScaled(2) }), 0, toScaled(1000))).toBe(toScaled(2));
+    expect(computeFee(schedule({ bps: 0, flatFee: toScaled(3) }), 0, toScaled(1000))).toBe(toScaled(3));
+  });
+});
+
+describe("tradeFeeCurrency", () => {
+  test("reads the fee currency against the schedule's own pair", () => {
+    const quoteSide = schedule({ pair: "EUR_USDT", feeCurrency: "QUOTE" });
+    expect(tradeFeeCurrency(quoteSide, "EUR_USDT")).toBe("QUOTE");
+    expect(tradeFeeCurrency(quoteSide, "USDT_EUR")).toBe("BASE"); // USDT either way
+  });
+
+  test("every-pair schedules charge in the trade's own orientation", () => {
+    expect(tradeFeeCurrency(schedule({ feeCurrency: "BASE" }), "USDT_EUR")).toBe("BASE");
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import type { Subprocess } from "bun";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { mkdtempSync, rmSync } from "fs";
+
+// Last-look tests run against a server of their own, started in a scratch
+// directory so it has its own database. It replays
+// src/test/fixtures/prices-jump.ndjson, where EUR_USDT sits at 1.0850/1.0852
+// for two seconds and jumps ~90 bps for the next two, on a loop, with a
+// 5 bps tolerance. Usage: bun test src/test/last-look-replay.test.ts
+
+const ROOT = resolve(import.meta.dir, "../..");
+const PORT = 3100;
+const BASE_URL = `http://localhost:${PORT}`;
+const ACCOUNT_ID = "demo-account";
+const ADMIN_KEY = "last-look-admin-key";
+const TOLERANCE_BPS = 5;
+
+let dir: string;
+let server: Subprocess;
+
+function serverEnv(env: Record<string, string>): Record<string, string | undefined> {
+  return {
+    ...process.env,
+    PRICE_SOURCE: "replay",
+    PRICE_FIXTURE: join(ROOT, "src/test/fixtures/prices-jump.ndjson"),
+    PRICE_REPLAY_LOOP: "true",
+    ADMIN_API_KEY: ADMIN_KEY,
+    ...env,
+  };
+}
+
+function api(path: string, options?: RequestInit): Promise<Response> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Account-Id": ACCOUNT_ID,
+  };
+  if (options?.method === "POST" && path === "/api/v1/trades") {
+    headers["X-Idempotency-Key"] = crypto.randomUUID();
+  }
+  return fetch(`${BASE_URL}${path}`, { ...options, headers });
+}
+
+async function createQuote(): Promise<any> {
+  const res = await api("/api/v1/quotes", {
+    method: "POST",
+    body: JSON.stringify({ baseCurrency: "EUR", quoteCurrency: "USDT", side: "BUY", amount: 100 }),
+  });
+  expect(res.status).toBe(201);
+  return (await res.json()).data;
+}
+
+function executeQuote(quoteId: string, requote?: boolean): Promise<Response> {
+  return api("/api/v1/trades", {
+    method: "POST",
+    body: JSON.stringify({ type: "RFQ", quoteId, requote }),
+  });
+}
+
+async function replayPosition(): Promise<number> {
+  const res = await fetch(`${BASE_URL}/health`);
+  return (await res.json()).marketData.position;
+}
+
+// Resolves as EUR_USDT moves to the given price, leaving close to two
+// seconds before it moves again. Ticks 0-1 are the low price, 2 the jump.
+async function waitForPrice(price: "low" | "high"): Promise<void> {
+  const at = async () => ((await replayPosition()) >= 3) === (price === "high");
+  const deadline = Date.now() + 10_000;
+  while (await at()) {
+    if (Date.now() > deadline) throw new Error(`timed out waiting for the ${price} price`);
+    await Bun.sleep(20);
+  }
+  while (!(await at())) {
+    if (Date.now() > deadline) throw new Error(`timed out waiting for the ${price} price`);
+    await Bun.sleep(20);
+  }
+}
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), "last-look-"));
+  const seed = Bun.spawnSync([process.execPath, "run", join(ROOT, "src/db/seed.ts")], {
+    cwd: dir,
+    env: serverEnv({}),
+  });
+  if (seed.exitCode !== 0) throw new Error(`Seeding failed: ${seed.stderr.toString()}`);
+
+  server = Bun.spawn([process.execPath, "run", join(ROOT, "src/index.ts")], {
+    cwd: dir,
+    env: serverEnv({ PORT: String(PORT), LAST_LOOK_TOLERANCE_BPS: String(TOLERANCE_BPS) }),
+    stdout: "ignore",
+    stderr: "ignore",
+  });
+
+  const deadline = Date.now() + 10_000;
+  while (true) {
+    try {
+      if ((await fetch(`${BASE_URL}/health`)).ok) break;
+    } catch {
+      // not listening yet
+    }
+    if (Date.now() > deadline) throw new Error("Last-look test server did not start");
+    await Bun.sleep(100);
+  }
+}, 20_000);
+
+afterAll(async () => {
+  server?.kill();
+  await server?.exited;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("Last look", () => {
+  test("A quote the market has moved away from is rejected, and fills once it comes back", async () => {
+    await waitForPrice("low");
+    const quote = await createQuote();
+
+    await waitForPrice("high");
+    const rejected = await executeQuote(quote.id);
+    expect(rejected.status).toBe(409);
+    const { error } = await rejected.json();
+    expect(error.code).toBe("QUOTE_REPRICED");
+    expect(error.message).toContain(`${TOLERANCE_BPS} bps last-look tolerance`);
+    expect(error.details).toBeUndefined();
+
+    const check = await api(`/api/v1/quotes/${quote.id}`);
+    expect((await check.json()).data.status).toBe("OPEN");
+
+    await waitForPrice("low");
+    const filled = await executeQuote(quote.id);
+    expect(filled.status).toBe(201);
+    expect((await filled.json()).data.price).toBe(quote.price);
+  }, 15_000);
+
+  test("requote: true returns a fresh quote at the moved price", async () => {
+    await waitForPrice("low");
+    const quote = await createQuote();
+
+    await waitForPrice("high");
+    const rejected = await executeQuote(quote.id, true);
+    expect(rejected.status).toBe(409);
+    const { error } = await rejected.json();
+    expect(error.code).toBe("QUOTE_REPRICED");
+
+    const requote = error.details.requote;
+    expect(requote.id).not.toBe(quote.id);
+    expect(requote.status).toBe("OPEN");
+    expect(requote.baseAmount).toBe(quote.baseAmount);
+    expect(parseFloat(requote.price)).toBeGreaterThan(parseFloat(quote.price));
+
+    // The fresh quote is priced off the moved market, so it passes
+    const filled = await executeQuote(requote.id);
+    expect(filled.status).toBe(201);
+    expect((await filled.json()).data.price).toBe(requote.price);
+  }, 15_000);
+
+  test("Both outcomes are in the decision log", async () => {
+    const res = await fetch(`${BASE_URL}/api/v1/admin/last-look?accountId=${ACCOUNT_ID}`, {
+      headers: { "X-Admin-Key": ADMIN_KEY },
+    });
+    expect(res.status).toBe(200);
+    const { data } = await res.json();
+
+    const rejected = data.filter((d: any) => d.decision === "REJECTED");
+    const accepted = data.filter((d: any) => d.decision === "ACCEPTED");
+    expect(rejected).toHaveLength(2);
+    expect(accepted).toHaveLength(2);
+
+    for (const row of rejected) {
+      expect(row.accountId).toBe(ACCOUNT_ID);
+      expect(row.toleranceBps).toBe(TOLERANCE_BPS);
+      expect(row.lossBps).toBeGreaterThan(TOLERANCE_BPS);
+      expect(parseFloat(row.venuePrice)).toBeGreaterThan(parseFloat(row.quotedPrice));
+    }
+    // Only the execution that asked for a requote got one
+    expect(rejected.filter((d: any) => d.requoteId)).toHaveLength(1);
+    for (const row of accepted) expect(row.lossBps).toBeLessThanOrEqual(TOLERANCE_BPS);
+
+    const filtered = await fetch(`${BASE_URL}/api/v1/admin/last-look?decision=REJECTED`, {
+      headers: { "X-Admin-Key": ADMIN_KEY },
+    });
+    const { data: onlyRejected } = await filtered.json();
+    expect(onlyRejected.map((d: any) => d.id).sort()).toEqual(rejected.map((d: any) => d.id).sort());
+  });
+
+  test("The server refuses to start with an invalid tolerance", async () => {
+    const proc = Bun.spawn([process.execPath, "run", join(ROOT, "src/index.ts")], {
+      cwd: dir,
+      env: serverEnv({ PORT: String(PORT + 1), LAST_LOOK_TOLERANCE_BPS: "5bps" }),
+      stdout: "ignore",
+      stderr: "pipe",
+    });
+    const timer = setTimeout(() => proc.kill(), 10_000);
+    const exitCode = await proc.exited;
+    clearTimeout(timer);
+
+    expect(exitCode).not.toBe(0);
+    expect(await new Response(proc.stderr).text()).toContain("LAST_LOOK_TOLERANCE_BPS");
+  }, 15_000);
+});
@@ -0,0 +1,31 @@
+import { describe, test, expect } from "bun:test";
+import { houseLossBps, passesLastLook } from "../last-look";
+import { toScaled } from "../money";
+
+const QUOTED = toScaled(100);
+
+describe("houseLossBps", () => {
+  test("a client BUY loses the house money when the venue rises", () => {
+    expect(houseLossBps("BUY", QUOTED, toScaled(100.5))).toBeCloseTo(50, 8);
+    expect(houseLossBps("BUY", QUOTED, toScaled(99.9))).toBeCloseTo(-10, 8);
+  });
+
+  test("a client SELL loses the house money when the venue falls", () => {
+    expect(houseLossBps("SELL", QUOTED, toScaled(99.5))).toBeCloseTo(50, 8);
+    expect(houseLossBps("SELL", QUOTED, toScaled(100.1))).toBeCloseTo(-10, 8);
+  });
+});
+
+describe("passesLastLook", () => {
+  test("fills while the market has moved in the house's favour", () => {
+    expect(passesLastLook("BUY", QUOTED, toScaled(90), 0)).toBe(true);
+    expect(passesLastLook("SELL", QUOTED, toScaled(110), 0)).toBe(true);
+  });
+
+  test("fills up to the tolerance and rejects beyond it", () => {
+    expect(passesLastLook("BUY", QUOTED, toScaled(100.25), 25)).toBe(true);
+    expect(passesLastLook("BUY", QUOTED, toScaled(100.26), 25)).toBe(false);
+    expect(passesLastLook("SELL", QUOTED, toScaled(99.75), 25)).toBe(true);
+    expect(passesLastLook("SELL", QUOTED, toScaled(99.74), 25)).toBe(false);
+  });
+});
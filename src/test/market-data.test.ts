@@ -0,0 +1,214 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import type { Server, ServerWebSocket } from "bun";
+import { tmpdir } from "os";
+import { join } from "path";
+import { readFileSync, rmSync } from "fs";
+import {
+  BookTickerFeed,
+  ReplayFeed,
+  parseTicks,
+  recordTicks,
+} from "../services/market-data.service";
+import type { SupportedPair } from "../types";
+
+// Market data feed tests run against a local stand-in bookTicker server
+
+const PAIRS: SupportedPair[] = [
+  { symbol: "EURUSDT", base: "EUR", quote: "USDT" },
+  { symbol: "BTCUSDT", base: "BTC", quote: "USDT" },
+];
+
+let server: Server<undefined>;
+let clients: ServerWebSocket<undefined>[] = [];
+let lastUrl = "";
+
+function tick(u: number, s: string, b: string, a: string) {
+  const frame = JSON.stringify({
+    stream: `${s.toLowerCase()}@bookTicker`,
+    data: { u, s, b, B: "1.0", a, A: "2.0" },
+  });
+  for (const ws of clients) ws.send(frame);
+}
+
+function waitFor(check: () => boolean, timeoutMs = 2_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve, reject) => {
+    const poll = () => {
+      if (check()) return resolve();
+      if (Date.now() > deadline) return reject(new Error("timed out"));
+      setTimeout(poll, 5);
+    };
+    poll();
+  });
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    fetch(req, server) {
+      lastUrl = req.url;
+      if (server.upgrade(req, { data: undefined })) return;
+      return new Response("expected websocket", { status: 400 });
+    },
+    websocket: {
+      open: (ws) => void clients.push(ws),
+      close: (ws) => void (clients = clients.filter((c) => c !== ws)),
+      message: () => {},
+    },
+  });
+});
+
+afterAll(() => server.stop(true));
+
+describe("BookTickerFeed", () => {
+  test("subscribes to every pair and keeps the latest top of book", async () => {
+    const feed = new BookTickerFeed(`ws://localhost:${server.port}`, PAIRS);
+    feed.start();
+    try {
+      await waitFor(() => clients.length === 1);
+      expect(lastUrl).toContain("/stream?streams=eurusdt@bookTicker/btcusdt@bookTicker");
+      expect(feed.getBook("EURUSDT")).toBeNull();
+
+      tick(10, "EURUSDT", "1.17000000", "1.17010000");
+      tick(11, "EURUSDT", "1.17020000", "1.17030000");
+      await waitFor(() => feed.getBook("EURUSDT")?.updateId === 11);
+
+      const book = feed.getBook("EURUSDT")!;
+      expect(book.bidPrice).toBe("1.17020000");
+      expect(book.askQty).toBe("2.0");
+      expect(feed.getBook("BTCUSDT")).toBeNull();
+    } finally {
+      feed.stop();
+      await waitFor(() => clients.length === 0);
+    }
+  });
+
+  test("drops out-of-order ticks", async () => {
+    const feed = new BookTickerFeed(`ws://localhost:${server.port}`, PAIRS);
+    feed.start();
+    try {
+      await waitFor(() => clients.length === 1);
+      tick(20, "BTCUSDT", "67000.00", "67000.10");
+      tick(19, "BTCUSDT", "66000.00", "66000.10");
+      tick(21, "BTCUSDT", "67001.00", "67001.10");
+      await waitFor(() => feed.getBook("BTCUSDT")?.updateId === 21);
+
+      expect(feed.status().outOfOrder).toBe(1);
+    } finally {
+      feed.stop();
+      await waitFor(() => clients.length === 0);
+    }
+  });
+
+  test("marks books gapped on disconnect and reconnects", async () => {
+    const feed = new BookTickerFeed(`ws://localhost:${server.port}`, PAIRS);
+    const updates: number[] = [];
+    feed.onUpdate((book) => updates.push(book.updateId));
+    feed.start();
+    try {
+      await waitFor(() => clients.length === 1);
+      tick(30, "EURUSDT", "1.17", "1.18");
+      await waitFor(() => feed.getBook("EURUSDT") !== null);
+
+      clients[0].close();
+      await waitFor(() => feed.getBook("EURUSDT") === null);
+      expect(feed.status().gaps).toBe(1);
+
+      // Reconnects and accepts a restarted update ID after the gap
+      await waitFor(() => clients.length === 1);
+      tick(1, "EURUSDT", "1.19", "1.20");
+      await waitFor(() => feed.getBook("EURUSDT")?.updateId === 1);
+
+      expect(feed.status().reconnects).toBe(1);
+      expect(updates).toEqual([30, 1]);
+    } finally {
+      feed.stop();
+      await waitFor(() => clients.length === 0);
+    }
+  });
+});
+
+describe("parseTicks", () => {
+  test("reads NDJSON and JSON arrays alike", () => {
+    const ticks = [
+      { t: 100, s: "EURUSDT", b: "1.1", B: "5", a: "1.2", A: "6" },
+      { s: "BTCUSDT", b: "60000", B: "1", a: "60010", A: "2" },
+    ];
+    const ndjson = ticks.map((t) => JSON.stringify(t)).join("\n") + "\n";
+
+    expect(parseTicks(ndjson)).toEqual(parseTicks(JSON.stringify(ticks)));
+    // A tick without t plays with the one before
+    expect(parseTicks(ndjson)[1].t).toBe(100);
+  });
+
+  test("rejects a tick missing a field", () => {
+    expect(() => parseTicks('{"t":0,"s":"EURUSDT","b":"1.1","a":"1.2","A":"6"}', "bad.ndjson"))
+      .toThrow('Tick 1 in bad.ndjson has no "B" string');
+  });
+});
+
+describe("ReplayFeed", () => {
+  const TICKS = parseTicks(
+    [
+      '{"t":1000,"s":"EURUSDT","b":"1.10","B":"5","a":"1.11","A":"5"}',
+      '{"t":1000,"s":"BTCUSDT","b":"60000","B":"1","a":"60010","A":"1"}',
+      '{"t":1200,"s":"EURUSDT","b":"1.12","B":"5","a":"1.13","A":"5"}',
+    ].join("\n"),
+  );
+
+  test("plays ticks at their recorded offsets, scaled by speed", async () => {
+    const feed = new ReplayFeed(TICKS, 2, false, PAIRS);
+    const startedAt = Date.now();
+    feed.start();
+    try {
+      // Ticks at the first offset apply straight away
+      expect(feed.getBook("EURUSDT")?.bidPrice).toBe("1.10");
+      expect(feed.getBook("BTCUSDT")?.askPrice).toBe("60010");
+
+      // 200ms of fixture time at double speed
+      await waitFor(() => feed.getBook("EURUSDT")?.bidPrice === "1.12");
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(95);
+      expect(feed.status().position).toBe(3);
+    } finally {
+      feed.stop();
+    }
+  });
+
+  test("loops with rising update IDs", async () => {
+    const feed = new ReplayFeed(TICKS, 10, true, PAIRS);
+    feed.start();
+    try {
+      await waitFor(() => feed.status().loops >= 1 && feed.getBook("EURUSDT")!.updateId > 3);
+      expect(feed.status().outOfOrder).toBe(0);
+    } finally {
+      feed.stop();
+    }
+  });
+
+  test("records accepted ticks in a format it can replay", async () => {
+    const path = join(tmpdir(), `ticks-${crypto.randomUUID()}.ndjson`);
+    const source = new ReplayFeed(TICKS, 1_000, false, PAIRS);
+    const stopRecording = recordTicks(source, path);
+    source.start();
+    await waitFor(() => source.status().position === 3);
+    source.stop();
+    stopRecording();
+
+    const recorded = parseTicks(readFileSync(path, "utf8"));
+    rmSync(path);
+    expect(recorded.map((t) => [t.s, t.b])).toEqual([
+      ["EURUSDT", "1.10"],
+      ["BTCUSDT", "60000"],
+      ["EURUSDT", "1.12"],
+    ]);
+
+    const replay = new ReplayFeed(recorded, 1_000, false, PAIRS);
+    replay.start();
+    await waitFor(() => replay.getBook("EURUSDT")?.bidPrice === "1.12");
+    replay.stop();
+  });
+
+  test("rejects a non-positive speed", () => {
+    expect(() => new ReplayFeed(TICKS, 0)).toThrow("Replay speed must be positive");
+  });
+});
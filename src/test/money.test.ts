@@ -1,5 +1,5 @@
 import { describe, test, expect } from "bun:test";
-import { toScaled, fromScaled, scaledMultiply, scaledDivide, parsePrice, SCALE } from "../money";
+import { toScaled, fromScaled, scaledMultiply, scaledDivide, scaledDivideUp, parsePrice, SCALE } from "../money";
 
 describe("Money utilities", () => {
   test("toScaled converts decimal to scaled integer", () => {
@@ -52,6 +52,15 @@ describe("Money utilities", () => {
     expect(() => scaledDivide(toScaled(100), 0)).toThrow("Division by zero");
   });
 
+  test("scaledDivideUp rounds a remainder up and exact results unchanged", () => {
+    // 500 / 64010 = 0.0078112794... → 0.00781127 down, 0.00781128 up
+    const quoteAmount = toScaled(500);
+    const price = toScaled(64_010);
+    expect(fromScaled(scaledDivide(quoteAmount, price))).toBe("0.00781127");
+    expect(fromScaled(scaledDivideUp(quoteAmount, price))).toBe("0.00781128");
+    expect(scaledDivideUp(toScaled(117.92), toScaled(100))).toBe(toScaled(1.1792));
+  });
+
   test("parsePrice converts string to scaled integer", () => {
     expect(parsePrice("1.17920000")).toBe(117_920_000);
     expect(parsePrice("67045.01000000")).toBe(6_704_501_000_000);
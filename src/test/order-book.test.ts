@@ -0,0 +1,60 @@
+import { describe, test, expect } from "bun:test";
+import { walkBook } from "../order-book";
+import { toScaled } from "../money";
+
+const ASKS = [
+  { price: toScaled(60_010), qty: toScaled(0.5) },
+  { price: toScaled(60_020), qty: toScaled(1) },
+  { price: toScaled(60_050), qty: toScaled(2) },
+];
+
+describe("walkBook by base quantity", () => {
+  test("fills inside the top level at the top price", () => {
+    const walk = walkBook(ASKS, toScaled(0.2), "base")!;
+    expect(walk.averagePrice).toBe(toScaled(60_010));
+    expect(walk.amountOut).toBe(toScaled(12_002));
+    expect(walk.levels).toEqual([{ price: toScaled(60_010), qty: toScaled(0.2) }]);
+  });
+
+  test("walks several levels at the volume-weighted price", () => {
+    const walk = walkBook(ASKS, toScaled(1), "base")!;
+    // 0.5 @ 60010 + 0.5 @ 60020 = 60015 for 1 BTC
+    expect(walk.amountOut).toBe(toScaled(60_015));
+    expect(walk.averagePrice).toBe(toScaled(60_015));
+    expect(walk.levels).toEqual([
+      { price: toScaled(60_010), qty: toScaled(0.5) },
+      { price: toScaled(60_020), qty: toScaled(0.5) },
+    ]);
+  });
+
+  test("consumes exactly the whole book", () => {
+    const walk = walkBook(ASKS, toScaled(3.5), "base")!;
+    expect(walk.levels).toHaveLength(3);
+    expect(walk.amountOut).toBe(toScaled(30_005 + 60_020 + 120_100));
+  });
+
+  test("returns null when the depth runs out", () => {
+    expect(walkBook(ASKS, toScaled(3.6), "base")).toBeNull();
+    expect(walkBook([], toScaled(1), "base")).toBeNull();
+  });
+});
+
+describe("walkBook by quote notional", () => {
+  test("converts notional into base quantity", () => {
+    const walk = walkBook(ASKS, toScaled(30_005), "quote")!;
+    expect(walk.amountOut).toBe(toScaled(0.5));
+    expect(walk.levels).toEqual([{ price: toScaled(60_010), qty: toScaled(0.5) }]);
+  });
+
+  test("partially fills the next level", () => {
+    const walk = walkBook(ASKS, toScaled(30_005 + 6_002), "quote")!;
+    expect(walk.amountOut).toBe(toScaled(0.6));
+    expect(walk.levels[1]).toEqual({ price: toScaled(60_020), qty: toScaled(0.1) });
+    expect(walk.averagePrice).toBeGreaterThan(toScaled(60_010));
+    expect(walk.averagePrice).toBeLessThan(toScaled(60_020));
+  });
+
+  test("returns null when the notional exceeds the book", () => {
+    expect(walkBook(ASKS, toScaled(300_000), "quote")).toBeNull();
+  });
+});
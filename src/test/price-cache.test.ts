@@ -0,0 +1,92 @@
+import { describe, test, expect } from "bun:test";
+import { PriceCache } from "../price-cache";
+
+// Price cache tests: single-flight fetches, refresh ahead and counters
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (err: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("PriceCache.getOrFetch", () => {
+  test("concurrent misses share one fetch", async () => {
+    const cache = new PriceCache<string, number>(1_000);
+    const upstream = deferred<number>();
+    let calls = 0;
+    const fetch = () => {
+      calls++;
+      return upstream.promise;
+    };
+
+    const pending = [1, 2, 3].map(() => cache.getOrFetch("BTCUSDT", fetch));
+    upstream.resolve(42);
+
+    expect(await Promise.all(pending)).toEqual([42, 42, 42]);
+    expect(calls).toBe(1);
+    expect(await cache.getOrFetch("BTCUSDT", fetch)).toBe(42);
+    expect(cache.stats()).toEqual({ hits: 1, misses: 1, coalesced: 2, refreshes: 0, size: 1 });
+  });
+
+  test("keys are fetched independently", async () => {
+    const cache = new PriceCache<string, string>(1_000);
+    const [eur, btc] = await Promise.all([
+      cache.getOrFetch("EURUSDT", async () => "eur"),
+      cache.getOrFetch("BTCUSDT", async () => "btc"),
+    ]);
+
+    expect([eur, btc]).toEqual(["eur", "btc"]);
+    expect(cache.stats().misses).toBe(2);
+  });
+
+  test("a failed fetch rejects every waiter and is not cached", async () => {
+    const cache = new PriceCache<string, number>(1_000);
+    const upstream = deferred<number>();
+
+    const waiters = Promise.allSettled([
+      cache.getOrFetch("EURUSDT", () => upstream.promise),
+      cache.getOrFetch("EURUSDT", () => upstream.promise),
+    ]);
+    upstream.reject(new Error("rate limited"));
+
+    for (const result of await waiters) {
+      expect(result.status).toBe("rejected");
+      expect((result as PromiseRejectedResult).reason.message).toBe("rate limited");
+    }
+    expect(await cache.getOrFetch("EURUSDT", async () => 7)).toBe(7);
+    expect(cache.stats()).toMatchObject({ misses: 2, coalesced: 1 });
+  });
+
+  test("refreshes ahead of expiry while serving the cached value", async () => {
+    const cache = new PriceCache<string, number>(50, 40);
+    let version = 0;
+    const fetch = async () => ++version;
+
+    expect(await cache.getOrFetch("EURUSDT", fetch)).toBe(1);
+    await sleep(20);
+
+    // Within 40ms of expiry: the stale-soon value is served and refreshed behind it
+    expect(await cache.getOrFetch("EURUSDT", fetch)).toBe(1);
+    await sleep(0);
+    expect(await cache.getOrFetch("EURUSDT", fetch)).toBe(2);
+    expect(cache.stats()).toMatchObject({ misses: 1, hits: 2, refreshes: 1 });
+  });
+
+  test("does not refresh ahead when disabled", async () => {
+    const cache = new PriceCache<string, number>(50);
+    let version = 0;
+
+    await cache.getOrFetch("EURUSDT", async () => ++version);
+    await sleep(20);
+    await cache.getOrFetch("EURUSDT", async () => ++version);
+
+    expect(version).toBe(1);
+    expect(cache.stats().refreshes).toBe(0);
+  });
+});
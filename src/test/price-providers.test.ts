@@ -0,0 +1,85 @@
+import { describe, test, expect } from "bun:test";
+import { PriceProviderChain, type PriceProvider } from "../price-providers";
+import { AppError } from "../errors";
+import type { BinanceBookTicker } from "../types";
+
+// Price provider chain tests: failover order and bounded-stale display prices
+
+function book(bidPrice: string): BinanceBookTicker {
+  return { symbol: "EURUSDT", bidPrice, bidQty: "1", askPrice: bidPrice, askQty: "1" };
+}
+
+function provider(name: string, price: string | null): PriceProvider & { calls: number; down: boolean } {
+  return {
+    name,
+    calls: 0,
+    down: price === null,
+    async fetchBookTicker() {
+      this.calls++;
+      if (this.down) throw new Error(`${name} is down`);
+      return book(price!);
+    },
+  };
+}
+
+describe("PriceProviderChain", () => {
+  test("a failing provider is skipped for the next one", async () => {
+    const primary = provider("binance-stream", null);
+    const backup = provider("coingecko", "1.0850");
+    const chain = new PriceProviderChain([primary, backup]);
+
+    const provided = await chain.getBookTicker("EURUSDT");
+    expect(provided.provider).toBe("coingecko");
+    expect(provided.book.bidPrice).toBe("1.0850");
+    expect(provided.stale).toBe(false);
+    expect(primary.calls).toBe(1);
+  });
+
+  test("the first provider that answers wins and the rest aren't asked", async () => {
+    const primary = provider("binance-stream", "1.0851");
+    const backup = provider("coingecko", "1.0850");
+    const provided = await new PriceProviderChain([primary, backup]).getBookTicker("EURUSDT");
+
+    expect(provided.provider).toBe("binance-stream");
+    expect(backup.calls).toBe(0);
+  });
+
+  test("with every provider down, display gets the last good book within the staleness limit", async () => {
+    let now = 1_000;
+    const only = provider("binance-stream", "1.0850");
+    const chain = new PriceProviderChain([only], 5_000, () => now);
+    await chain.getBookTicker("EURUSDT");
+
+    only.down = true;
+    now += 5_000;
+    const stale = await chain.getBookTicker("EURUSDT", true);
+    expect(stale).toEqual({ book: book("1.0850"), provider: "binance-stream", stale: true });
+
+    now += 1;
+    await expect(chain.getBookTicker("EURUSDT", true)).rejects.toThrow(AppError);
+  });
+
+  test("quoting and trading refuse a stale book", async () => {
+    let now = 1_000;
+    const only = provider("binance-stream", "1.0850");
+    const chain = new PriceProviderChain([only], 60_000, () => now);
+    await chain.getBookTicker("EURUSDT");
+
+    only.down = true;
+    now += 1;
+    const err = await chain.getBookTicker("EURUSDT").catch((e) => e);
+    expect(err).toBeInstanceOf(AppError);
+    expect(err.code).toBe("PRICE_FETCH_FAILED");
+    expect(err.message).toContain("binance-stream is down");
+  });
+
+  test("staleness is off by default", async () => {
+    const only = provider("binance-stream", "1.0850");
+    const chain = new PriceProviderChain([only]);
+    await chain.getBookTicker("EURUSDT");
+
+    only.down = true;
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    await expect(chain.getBookTicker("EURUSDT", true)).rejects.toThrow(AppError);
+  });
+});
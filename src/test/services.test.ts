@@ -1,7 +1,7 @@
 import { describe, test, expect, beforeAll } from "bun:test";
 import { Database } from "bun:sqlite";
 import { drizzle } from "drizzle-orm/bun-sqlite";
-import { eq, and } from "drizzle-orm";
+import { eq, and, gte, sql } from "drizzle-orm";
 import * as schema from "../db/schema";
 import { toScaled, fromScaled } from "../money";
 
@@ -13,6 +13,7 @@ function setupTestDb() {
   sqlite.exec(`CREATE TABLE accounts (
     id TEXT PRIMARY KEY,
     name TEXT NOT NULL,
+    pricing_group TEXT,
     created_at INTEGER NOT NULL
   )`);
 
@@ -21,6 +22,7 @@ function setupTestDb() {
     account_id TEXT NOT NULL REFERENCES accounts(id),
     currency TEXT NOT NULL,
     amount INTEGER NOT NULL,
+    reserved INTEGER NOT NULL DEFAULT 0,
     updated_at INTEGER NOT NULL,
     UNIQUE(account_id, currency)
   )`);
@@ -36,6 +38,14 @@ function setupTestDb() {
     price INTEGER NOT NULL,
     expires_at INTEGER NOT NULL,
     status TEXT NOT NULL,
+    legs TEXT,
+    levels TEXT,
+    venue_price INTEGER,
+    spread_bps INTEGER,
+    fills TEXT,
+    venue TEXT,
+    venue_quotes TEXT,
+    amount_currency TEXT,
     created_at INTEGER NOT NULL
   )`);
 
@@ -50,10 +60,82 @@ function setupTestDb() {
     base_amount INTEGER NOT NULL,
     quote_amount INTEGER NOT NULL,
     price INTEGER NOT NULL,
+    legs TEXT,
+    fills TEXT,
+    venue TEXT,
+    venue_quotes TEXT,
+    order_id TEXT,
+    parent_id TEXT,
+    status TEXT NOT NULL DEFAULT 'EXECUTED',
+    replaced_by TEXT,
+    replaces TEXT,
+    reason TEXT,
+    revised_at INTEGER,
+    fee_amount INTEGER NOT NULL DEFAULT 0,
+    fee_currency TEXT,
     executed_at INTEGER NOT NULL,
     created_at INTEGER NOT NULL
   )`);
 
+  sqlite.exec(`CREATE TABLE orders (
+    id TEXT PRIMARY KEY,
+    account_id TEXT NOT NULL REFERENCES accounts(id),
+    client_order_id TEXT,
+    parent_id TEXT,
+    type TEXT NOT NULL,
+    base_currency TEXT NOT NULL,
+    quote_currency TEXT NOT NULL,
+    side TEXT NOT NULL,
+    base_amount INTEGER NOT NULL,
+    limit_price INTEGER,
+    trigger_price INTEGER,
+    oco_id TEXT,
+    status TEXT NOT NULL,
+    reserved_currency TEXT NOT NULL,
+    reserved_amount INTEGER NOT NULL,
+    trade_id TEXT,
+    reason TEXT,
+    expires_at INTEGER,
+    version INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  )`);
+
+  sqlite.exec(`CREATE UNIQUE INDEX orders_account_client_order_idx
+    ON orders(account_id, client_order_id)`);
+
+  sqlite.exec(`CREATE INDEX quotes_status_expires_idx
+    ON quotes(status, expires_at)`);
+
+  sqlite.exec(`CREATE TABLE algo_orders (
+    id TEXT PRIMARY KEY,
+    account_id TEXT NOT NULL REFERENCES accounts(id),
+    strategy TEXT NOT NULL,
+    base_currency TEXT NOT NULL,
+    quote_currency TEXT NOT NULL,
+    side TEXT NOT NULL,
+    total_amount INTEGER NOT NULL,
+    schedule TEXT NOT NULL,
+    interval_ms INTEGER NOT NULL,
+    slices_done INTEGER NOT NULL,
+    next_slice_at INTEGER,
+    max_slippage_bps INTEGER,
+    limit_price INTEGER,
+    status TEXT NOT NULL,
+    reason TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  )`);
+
+  sqlite.exec(`CREATE TABLE order_events (
+    id TEXT PRIMARY KEY,
+    order_id TEXT NOT NULL REFERENCES orders(id),
+    type TEXT NOT NULL,
+    status TEXT NOT NULL,
+    detail TEXT,
+    created_at INTEGER NOT NULL
+  )`);
+
   const db = drizzle(sqlite, { schema });
 
   // Seed test account
@@ -133,6 +215,28 @@ describe("Database operations", () => {
     expect(fromScaled(updated.amount)).toBe("9900.00000000");
   });
 
+  test("reserved funds are excluded by the available balance guard", () => {
+    const { db } = setupTestDb();
+    const usdt = and(eq(schema.balances.accountId, "test-account"), eq(schema.balances.currency, "USDT"));
+    const available = sql`${schema.balances.amount} - ${schema.balances.reserved}`;
+
+    // Hold 9,950 of the 10,000 USDT for a resting order
+    db.update(schema.balances).set({ reserved: toScaled(9_950) }).where(usdt).run();
+
+    const debit = (amount: number) =>
+      db.update(schema.balances)
+        .set({ amount: sql`${schema.balances.amount} - ${amount}` })
+        .where(and(usdt, gte(available, amount)))
+        .run() as unknown as { changes: number };
+
+    expect(debit(toScaled(100)).changes).toBe(0);
+    expect(debit(toScaled(50)).changes).toBe(1);
+
+    const [row] = db.select().from(schema.balances).where(usdt).all();
+    expect(fromScaled(row.amount)).toBe("9950.00000000");
+    expect(fromScaled(row.reserved)).toBe("9950.00000000");
+  });
+
   test("trade record is created correctly", () => {
     const { db } = setupTestDb();
     const now = Date.now();
@@ -221,4 +325,62 @@ describe("Database operations", () => {
     const isExpired = Date.now() > quote.expiresAt;
     expect(isExpired).toBe(true);
   });
+
+  test("trade keeps its venue and competing venue quotes", () => {
+    const { db } = setupTestDb();
+    const now = Date.now();
+    const venueQuotes = [
+      { pair: "EUR_USDT", venue: "Binance", bid: "1.17900000", ask: "1.17920000" },
+      { pair: "EUR_USDT", venue: "MassiveFX", bid: "1.17880000", ask: "1.17950000" },
+      { pair: "EUR_USDT", venue: "CoinGecko", timedOut: true },
+    ];
+
+    db.insert(schema.trades)
+      .values({
+        id: crypto.randomUUID(),
+        accountId: "test-account",
+        quoteId: null,
+        type: "MARKET",
+        baseCurrency: "EUR",
+        quoteCurrency: "USDT",
+        side: "BUY",
+        baseAmount: toScaled(100),
+        quoteAmount: toScaled(117.92),
+        price: toScaled(1.1792),
+        venue: "Binance",
+        venueQuotes,
+        executedAt: now,
+        createdAt: now,
+      })
+      .run();
+
+    const [trade] = db.select().from(schema.trades).all();
+    expect(trade.venue).toBe("Binance");
+    expect(trade.venueQuotes).toEqual(venueQuotes);
+  });
+
+  test("client order IDs are unique per account", () => {
+    const { db } = setupTestDb();
+    const now = Date.now();
+    const order = (clientOrderId: string | null) => ({
+      id: crypto.randomUUID(),
+      accountId: "test-account",
+      clientOrderId,
+      type: "LIMIT",
+      baseCurrency: "EUR",
+      quoteCurrency: "USDT",
+      side: "BUY",
+      baseAmount: toScaled(10),
+      limitPrice: toScaled(1),
+      status: "NEW",
+      reservedCurrency: "USDT",
+      reservedAmount: toScaled(10),
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    // Orders without a client order ID never collide
+    db.insert(schema.orders).values([order(null), order(null), order("abc")]).run();
+    expect(() => db.insert(schema.orders).values(order("abc")).run()).toThrow();
+  });
 });
@@ -0,0 +1,341 @@
+import { describe, test, expect } from "bun:test";
+import { VenueRegistry, loadVenueConfig } from "../venues";
+import { routeOrder } from "../services/sor.service";
+import { toScaled } from "../money";
+import { AppError } from "../errors";
+import type { LiquidityTier, SupportedPair, VenueAdapter } from "../types";
+
+// SOR tests run against stub venues, no network
+
+const EURUSDT: SupportedPair = { symbol: "EURUSDT", base: "EUR", quote: "USDT" };
+const BTCUSDT: SupportedPair = { symbol: "BTCUSDT", base: "BTC", quote: "USDT" };
+
+function stubVenue(
+  name: string,
+  bid: number,
+  ask: number,
+  pairs = ["EURUSDT"],
+  liquidity: LiquidityTier = "tier1",
+  qty?: number,
+): VenueAdapter {
+  const size = qty === undefined ? {} : { bidQty: toScaled(qty), askQty: toScaled(qty) };
+  return {
+    name,
+    liquidity,
+    pairs,
+    fetchQuote: async () => ({ source: name, bid: toScaled(bid), ask: toScaled(ask), liquidity, ...size }),
+  };
+}
+
+function slowVenue(name: string, bid: number, ask: number, delayMs: number): VenueAdapter {
+  const venue = stubVenue(name, bid, ask);
+  return { ...venue, fetchQuote: (pair) => Bun.sleep(delayMs).then(() => venue.fetchQuote(pair)) };
+}
+
+// Never answers; records the signal it was given so tests can see it abort
+function hangingVenue(name: string, signals: AbortSignal[]): VenueAdapter {
+  return {
+    name,
+    liquidity: "tier2",
+    pairs: ["EURUSDT"],
+    fetchQuote: (_pair, signal) =>
+      new Promise((_resolve, reject) => {
+        signals.push(signal!);
+        signal!.addEventListener("abort", () => reject(signal!.reason));
+      }),
+  };
+}
+
+// A small EUR_USDT order, inside any single venue's liquidity, so it fills
+// entirely at the best-ranked venue
+function route(registry: VenueRegistry, side: "BUY" | "SELL" = "BUY", budgetMs?: number) {
+  return routeOrder(EURUSDT, side, toScaled(100), "base", new Map(), registry, budgetMs);
+}
+
+function failingVenue(name: string): VenueAdapter {
+  return {
+    name,
+    liquidity: "tier2",
+    pairs: ["EURUSDT"],
+    fetchQuote: async () => {
+      throw new Error(`${name} down`);
+    },
+  };
+}
+
+describe("loadVenueConfig", () => {
+  function load(raw: string) {
+    const saved = process.env.VENUE_CONFIG;
+    process.env.VENUE_CONFIG = raw;
+    try {
+      return loadVenueConfig();
+    } finally {
+      if (saved === undefined) delete process.env.VENUE_CONFIG;
+      else process.env.VENUE_CONFIG = saved;
+    }
+  }
+
+  test("reads VENUE_CONFIG entries", () => {
+    expect(load('[{"name":"A","enabled":true,"penaltyBps":2,"timeoutMs":300}]')).toEqual([
+      { name: "A", enabled: true, penaltyBps: 2, timeoutMs: 300 },
+    ]);
+  });
+
+  test("rejects invalid JSON", () => {
+    expect(() => load("[{name:")).toThrow("VENUE_CONFIG is not valid JSON");
+  });
+
+  test("rejects entries that don't match the schema", () => {
+    expect(() => load('{"name":"A"}')).toThrow("VENUE_CONFIG is invalid");
+    expect(() => load('[{"name":"A","enabled":"yes","penaltyBps":0}]')).toThrow("0.enabled");
+    expect(() => load('[{"name":"A","enabled":true}]')).toThrow("0.penaltyBps");
+    expect(() => load('[{"name":"A","enabled":true,"penaltyBps":0,"timeoutMS":50}]')).toThrow("timeoutMS");
+    expect(() => load('[{"name":"A","enabled":true,"penaltyBps":0,"timeoutMs":0}]')).toThrow("0.timeoutMs");
+  });
+
+  test("rejects a venue listed twice", () => {
+    const entry = '{"name":"A","enabled":true,"penaltyBps":0}';
+    expect(() => load(`[${entry},${entry}]`)).toThrow("venue names must be unique");
+  });
+});
+
+describe("Venue registry", () => {
+  const adapters = [stubVenue("A", 1.17, 1.18), stubVenue("B", 1.16, 1.19, ["EURUSDT", "BTCUSDT"])];
+
+  test("returns only enabled venues that quote the pair", () => {
+    const registry = new VenueRegistry(
+      [
+        { name: "A", enabled: false, penaltyBps: 0 },
+        { name: "B", enabled: true, penaltyBps: 0 },
+      ],
+      adapters,
+    );
+
+    expect(registry.forPair(EURUSDT).map((v) => v.adapter.name)).toEqual(["B"]);
+    expect(registry.forPair(BTCUSDT).map((v) => v.adapter.name)).toEqual(["B"]);
+    expect(registry.list()).toHaveLength(2);
+  });
+
+  test("rejects config naming an unknown venue", () => {
+    expect(
+      () => new VenueRegistry([{ name: "Nope", enabled: true, penaltyBps: 0 }], adapters),
+    ).toThrow('No adapter registered for venue "Nope"');
+  });
+});
+
+describe("routeOrder venue ranking", () => {
+  const adapters = [
+    stubVenue("Tight", 1.1700, 1.1710),
+    stubVenue("Wide", 1.1690, 1.1720),
+    failingVenue("Down"),
+  ];
+  const config = adapters.map((a) => ({ name: a.name, enabled: true, penaltyBps: 0 }));
+
+  test("BUY picks the lowest ask, SELL the highest bid", async () => {
+    const registry = new VenueRegistry(config, adapters);
+
+    const buy = await route(registry);
+    expect(buy.fills).toEqual([{ venue: "Tight", qty: toScaled(100), price: toScaled(1.171) }]);
+
+    const sell = await route(registry, "SELL");
+    expect(sell.fills).toEqual([{ venue: "Tight", qty: toScaled(100), price: toScaled(1.17) }]);
+  });
+
+  test("failed venues are left out of allQuotes", async () => {
+    const registry = new VenueRegistry(config, adapters);
+    const result = await route(registry);
+    expect(result.allQuotes.map((q) => q.source).sort()).toEqual(["Tight", "Wide"]);
+  });
+
+  test("penaltyBps reweights the ranking but not the price", async () => {
+    const registry = new VenueRegistry(
+      [
+        { name: "Tight", enabled: true, penaltyBps: 50 },
+        { name: "Wide", enabled: true, penaltyBps: 0 },
+      ],
+      adapters,
+    );
+
+    const buy = await route(registry);
+    expect(buy.fills).toEqual([{ venue: "Wide", qty: toScaled(100), price: toScaled(1.172) }]);
+  });
+
+  test("throws when every venue fails", async () => {
+    const registry = new VenueRegistry(
+      [{ name: "Down", enabled: true, penaltyBps: 0 }],
+      adapters,
+    );
+    await expect(route(registry)).rejects.toThrow("All pricing sources failed");
+  });
+});
+
+describe("routeOrder deadlines", () => {
+  const adapters = [
+    stubVenue("Fast", 1.1690, 1.1720),
+    slowVenue("Slow", 1.1700, 1.1710, 200),
+  ];
+
+  test("routes to the venues that quoted in budget and records slower ones", async () => {
+    const registry = new VenueRegistry(
+      adapters.map((a) => ({ name: a.name, enabled: true, penaltyBps: 0, timeoutMs: 1_000 })),
+      adapters,
+    );
+
+    const started = Date.now();
+    const result = await route(registry, "BUY", 50);
+    expect(Date.now() - started).toBeLessThan(150);
+    expect(result.fills.map((f) => f.venue)).toEqual(["Fast"]);
+    expect(result.timedOut).toEqual(["Slow"]);
+  });
+
+  test("a venue's own timeoutMs cuts it off inside the budget", async () => {
+    const registry = new VenueRegistry(
+      [
+        { name: "Fast", enabled: true, penaltyBps: 0 },
+        { name: "Slow", enabled: true, penaltyBps: 0, timeoutMs: 20 },
+      ],
+      adapters,
+    );
+
+    const started = Date.now();
+    const result = await route(registry, "BUY", 1_000);
+    expect(Date.now() - started).toBeLessThan(150);
+    expect(result.timedOut).toEqual(["Slow"]);
+  });
+
+  test("does not wait out the budget once every venue has answered", async () => {
+    const registry = new VenueRegistry(
+      [{ name: "Fast", enabled: true, penaltyBps: 0 }],
+      adapters,
+    );
+
+    const started = Date.now();
+    await route(registry, "BUY", 1_000);
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+
+  test("a venue's request is aborted at its own deadline", async () => {
+    const signals: AbortSignal[] = [];
+    const venues = [stubVenue("Fast", 1.1690, 1.1720), hangingVenue("Hanging", signals)];
+    const registry = new VenueRegistry(
+      [
+        { name: "Fast", enabled: true, penaltyBps: 0 },
+        { name: "Hanging", enabled: true, penaltyBps: 0, timeoutMs: 20 },
+      ],
+      venues,
+    );
+
+    const result = await route(registry, "BUY", 1_000);
+    expect(result.timedOut).toEqual(["Hanging"]);
+    expect(signals).toHaveLength(1);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[0].reason.name).toBe("TimeoutError");
+  });
+
+  test("requests still running when the budget is spent are aborted", async () => {
+    const signals: AbortSignal[] = [];
+    const venues = [stubVenue("Fast", 1.1690, 1.1720), hangingVenue("Hanging", signals)];
+    const registry = new VenueRegistry(
+      venues.map((v) => ({ name: v.name, enabled: true, penaltyBps: 0, timeoutMs: 1_000 })),
+      venues,
+    );
+
+    const started = Date.now();
+    const result = await route(registry, "BUY", 30);
+    expect(Date.now() - started).toBeLessThan(150);
+    expect(result.timedOut).toEqual(["Hanging"]);
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  test("an answered venue's signal is never aborted", async () => {
+    let seen: AbortSignal | undefined;
+    const venue = stubVenue("Fast", 1.1690, 1.1720);
+    const recording: VenueAdapter = {
+      ...venue,
+      fetchQuote: (pair, signal) => ((seen = signal), venue.fetchQuote(pair)),
+    };
+    const registry = new VenueRegistry(
+      [{ name: "Fast", enabled: true, penaltyBps: 0, timeoutMs: 20 }],
+      [recording],
+    );
+
+    await route(registry, "BUY", 1_000);
+    await Bun.sleep(40);
+    expect(seen).toBeDefined();
+    expect(seen!.aborted).toBe(false);
+  });
+
+  test("fails with PRICE_FETCH_FAILED when no venue answers in budget", async () => {
+    const registry = new VenueRegistry(
+      [{ name: "Slow", enabled: true, penaltyBps: 0 }],
+      adapters,
+    );
+
+    const error = await route(registry, "BUY", 20).catch((e) => e);
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.code).toBe("PRICE_FETCH_FAILED");
+  });
+});
+
+describe("routeOrder", () => {
+  const adapters = [
+    stubVenue("Deep", 59_990, 60_010, ["BTCUSDT"], "tier1", 1),
+    stubVenue("Thin", 59_995, 60_005, ["BTCUSDT"], "tier3", 0.5),
+    stubVenue("Unsized", 59_980, 60_020, ["BTCUSDT"], "tier3"),
+  ];
+  const config = adapters.map((a) => ({ name: a.name, enabled: true, penaltyBps: 0 }));
+  const registry = new VenueRegistry(config, adapters);
+
+  test("fits inside the best venue's size", async () => {
+    const result = await routeOrder(BTCUSDT, "BUY", toScaled(0.2), "base", new Map(), registry);
+    expect(result.fills).toEqual([{ venue: "Thin", qty: toScaled(0.2), price: toScaled(60_005) }]);
+    expect(result.averagePrice).toBe(toScaled(60_005));
+  });
+
+  test("splits a large order across venues at a blended price", async () => {
+    const result = await routeOrder(BTCUSDT, "BUY", toScaled(1.5), "base", new Map(), registry);
+    expect(result.fills).toEqual([
+      { venue: "Thin", qty: toScaled(0.5), price: toScaled(60_005) },
+      { venue: "Deep", qty: toScaled(1), price: toScaled(60_010) },
+    ]);
+    // (0.5 * 60005 + 1 * 60010) / 1.5
+    expect(result.averagePrice).toBe(6_000_833_333_333);
+    expect(result.amountOut).toBe(toScaled(90_012.5));
+  });
+
+  test("unsized venues offer their liquidity tier's notional", async () => {
+    // Unsized tier3 venue fills up to 10,000 USDT at 60,020
+    const result = await routeOrder(BTCUSDT, "BUY", toScaled(1.6), "base", new Map(), registry);
+    expect(result.fills.map((f) => f.venue)).toEqual(["Thin", "Deep", "Unsized"]);
+    expect(result.fills[2].qty).toBe(toScaled(0.1));
+
+    await expect(
+      routeOrder(BTCUSDT, "BUY", toScaled(1.8), "base", new Map(), registry),
+    ).rejects.toThrow("Not enough BTC_USDT depth");
+  });
+
+  test("depth ladders replace a venue's top of book", async () => {
+    const depth = new Map([
+      ["Deep", [
+        { price: toScaled(60_010), qty: toScaled(1) },
+        { price: toScaled(60_030), qty: toScaled(5) },
+      ]],
+    ]);
+    const result = await routeOrder(BTCUSDT, "BUY", toScaled(3), "base", depth, registry);
+    expect(result.fills.find((f) => f.venue === "Deep")!.qty).toBe(toScaled(3 - 0.5 - 0.166_611_12));
+    expect(result.levels.map((l) => l.price)).toEqual([
+      toScaled(60_005),
+      toScaled(60_010),
+      toScaled(60_020),
+      toScaled(60_030),
+    ]);
+  });
+
+  test("SELL hits the highest bids first", async () => {
+    const result = await routeOrder(BTCUSDT, "SELL", toScaled(1.2), "base", new Map(), registry);
+    expect(result.fills).toEqual([
+      { venue: "Thin", qty: toScaled(0.5), price: toScaled(59_995) },
+      { venue: "Deep", qty: toScaled(0.7), price: toScaled(59_990) },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, test, expect } from "bun:test";
+import { applyMarkup, scheduleTarget, selectSchedule, type SpreadSchedule } from "../spread";
+import { toScaled } from "../money";
+
+function schedule(overrides: Partial<SpreadSchedule>): SpreadSchedule {
+  return { accountId: null, pricingGroup: null, pair: null, minNotional: 0, markupBps: 10, ...overrides };
+}
+
+const DEFAULT = schedule({ markupBps: 10 });
+const VIP = schedule({ pricingGroup: "vip", markupBps: 5 });
+const VIP_EUR = schedule({ pricingGroup: "vip", pair: "EUR_USDT", markupBps: 4 });
+const VIP_EUR_100K = schedule({
+  pricingGroup: "vip",
+  pair: "EUR_USDT",
+  minNotional: toScaled(100_000),
+  markupBps: 2,
+});
+const ACCOUNT = schedule({ accountId: "acct-1", markupBps: 1 });
+const ALL = [DEFAULT, VIP, VIP_EUR, VIP_EUR_100K, ACCOUNT];
+
+function target(overrides: Partial<Parameters<typeof selectSchedule>[1]> = {}) {
+  return { accountId: "acct-2", pricingGroup: null, pair: "BTC_USDT", notional: toScaled(1_000), ...overrides };
+}
+
+describe("selectSchedule", () => {
+  test("accounts outside any group get the default schedule", () => {
+    expect(selectSchedule(ALL, target())).toBe(DEFAULT);
+  });
+
+  test("group schedule beats the default", () => {
+    expect(selectSchedule(ALL, target({ pricingGroup: "vip" }))).toBe(VIP);
+  });
+
+  test("pair schedule beats an every-pair schedule", () => {
+    expect(selectSchedule(ALL, target({ pricingGroup: "vip", pair: "EUR_USDT" }))).toBe(VIP_EUR);
+  });
+
+  test("highest notional band reached wins", () => {
+    const vipEur = target({ pricingGroup: "vip", pair: "EUR_USDT" });
+    expect(selectSchedule(ALL, { ...vipEur, notional: toScaled(99_999) })).toBe(VIP_EUR);
+    expect(selectSchedule(ALL, { ...vipEur, notional: toScaled(100_000) })).toBe(VIP_EUR_100K);
+  });
+
+  test("account schedule beats its group's", () => {
+    expect(selectSchedule(ALL, target({ accountId: "acct-1", pricingGroup: "vip" }))).toBe(ACCOUNT);
+  });
+
+  test("returns null when nothing applies", () => {
+    expect(selectSchedule([VIP, ACCOUNT], target())).toBeNull();
+  });
+});
+
+describe("scheduleTarget", () => {
+  test("a listed pair is looked up as traded, banded on its quote amount", () => {
+    expect(scheduleTarget("EUR", "USDT", toScaled(100), toScaled(108.5))).toEqual({
+      pair: "EUR_USDT",
+      notional: toScaled(108.5),
+    });
+  });
+
+  test("a reversed listed pair is looked up as the listed one, banded on its base amount", () => {
+    expect(scheduleTarget("USDT", "EUR", toScaled(120_000), toScaled(110_000))).toEqual({
+      pair: "EUR_USDT",
+      notional: toScaled(120_000),
+    });
+  });
+
+  test("a reversed pair reaches the listed pair's schedules and bands", () => {
+    const vip = { accountId: "acct-2", pricingGroup: "vip" };
+    const small = scheduleTarget("USDT", "EUR", toScaled(1_000), toScaled(920));
+    const large = scheduleTarget("USDT", "EUR", toScaled(100_000), toScaled(92_000));
+    expect(selectSchedule(ALL, { ...vip, ...small })).toBe(VIP_EUR);
+    expect(selectSchedule(ALL, { ...vip, ...large })).toBe(VIP_EUR_100K);
+  });
+
+  test("a synthetic cross is used as given", () => {
+    expect(scheduleTarget("EUR", "BTC", toScaled(1_000), toScaled(0.017)).pair).toBe("EUR_BTC");
+  });
+});
+
+describe("applyMarkup", () => {
+  test("BUY pays more, SELL receives less", () => {
+    const price = toScaled(60_000);
+    expect(applyMarkup(price, "BUY", 10)).toBe(toScaled(60_060));
+    expect(applyMarkup(price, "SELL", 10)).toBe(toScaled(59_940));
+  });
+
+  test("zero bps leaves the value unchanged", () => {
+    expect(applyMarkup(toScaled(1.1701), "BUY", 0)).toBe(toScaled(1.1701));
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, test, expect } from "bun:test";
+import { VenueHealth, consensusMid } from "../venues/health";
+import { VenueRegistry } from "../venues";
+import { routeOrder } from "../services/sor.service";
+import { toScaled } from "../money";
+import type { SupportedPair, VenueAdapter } from "../types";
+
+const EURUSDT: SupportedPair = { symbol: "EURUSDT", base: "EUR", quote: "USDT" };
+
+const OK = { ok: true, latencyMs: 5 };
+const FAIL = { ok: false, latencyMs: 80, error: "timed out" };
+
+function route(registry: VenueRegistry) {
+  return routeOrder(EURUSDT, "BUY", toScaled(100), "base", new Map(), registry);
+}
+
+function stubVenue(name: string, mid: number, fail = false): VenueAdapter {
+  return {
+    name,
+    liquidity: "tier1",
+    pairs: ["EURUSDT"],
+    fetchQuote: async () => {
+      if (fail) throw new Error(`${name} down`);
+      return { source: name, bid: toScaled(mid - 0.0005), ask: toScaled(mid + 0.0005), liquidity: "tier1" };
+    },
+  };
+}
+
+describe("consensusMid", () => {
+  test("is the median, and needs three quotes", () => {
+    expect(consensusMid([3, 1, 2])).toBe(2);
+    expect(consensusMid([4, 1, 3, 2])).toBe(2.5);
+    expect(consensusMid([1, 2])).toBeNull();
+  });
+});
+
+describe("VenueHealth", () => {
+  test("opens the circuit once the error rate crosses the limit", () => {
+    const health = new VenueHealth();
+    for (const outcome of [OK, OK, FAIL, FAIL]) health.record("A", "EURUSDT", outcome);
+    expect(health.isTrusted("A", "EURUSDT")).toBe(true); // below min samples
+
+    health.record("A", "EURUSDT", FAIL);
+    expect(health.isTrusted("A", "EURUSDT")).toBe(false);
+    expect(health.canQuote("A", "EURUSDT")).toBe(false);
+
+    const [status] = health.status();
+    expect(status.circuit).toBe("open");
+    expect(status.reason).toBe("error rate 60% over last 5 calls");
+    expect(status.lastError).toBe("timed out");
+  });
+
+  test("opens the circuit on prices far from the consensus mid", () => {
+    const health = new VenueHealth();
+    for (let i = 0; i < 5; i++) health.record("A", "EURUSDT", { ...OK, deviationBps: 250 });
+    expect(health.status()[0].reason).toBe("prices average 250.0bps from consensus mid");
+  });
+
+  test("keeps a circuit per pair, so one pair failing leaves the others quoting", () => {
+    const health = new VenueHealth();
+    for (let i = 0; i < 5; i++) health.record("A", "BTCUSDT", FAIL);
+    health.record("A", "EURUSDT", OK);
+
+    expect(health.canQuote("A", "BTCUSDT")).toBe(false);
+    expect(health.canQuote("A", "EURUSDT")).toBe(true);
+    expect(health.isTrusted("A", "EURUSDT")).toBe(true);
+
+    const status = health.status();
+    expect(status.map((s) => [s.pair, s.circuit])).toEqual([
+      ["BTCUSDT", "open"],
+      ["EURUSDT", "closed"],
+    ]);
+    expect(status.every((s) => s.venue === "A")).toBe(true);
+  });
+
+  test("probes after the cooldown: a clean probe closes, a failed one reopens", async () => {
+    const health = new VenueHealth(20);
+    for (let i = 0; i < 5; i++) health.record("A", "EURUSDT", FAIL);
+    expect(health.canQuote("A", "EURUSDT")).toBe(false);
+
+    await Bun.sleep(25);
+    expect(health.canQuote("A", "EURUSDT")).toBe(true);
+    expect(health.status()[0].circuit).toBe("half-open");
+    expect(health.isTrusted("A", "EURUSDT")).toBe(false);
+
+    health.record("A", "EURUSDT", FAIL);
+    expect(health.status()[0].circuit).toBe("open");
+    expect(health.status()[0].reason).toBe("probe failed: timed out");
+
+    await Bun.sleep(25);
+    health.canQuote("A", "EURUSDT");
+    health.record("A", "EURUSDT", { ...OK, deviationBps: 3 });
+    expect(health.isTrusted("A", "EURUSDT")).toBe(true);
+    expect(health.status()[0].errorRate).toBe(0);
+  });
+});
+
+describe("routeOrder with venue health", () => {
+  test("an outlier venue stops winning and is reported", async () => {
+    const adapters = [
+      stubVenue("A", 1.17),
+      stubVenue("B", 1.1702),
+      stubVenue("Outlier", 1.10), // far cheaper, ~600bps off
+    ];
+    const registry = new VenueRegistry(
+      adapters.map((a) => ({ name: a.name, enabled: true, penaltyBps: 0 })),
+      adapters,
+    );
+
+    expect((await route(registry)).fills[0].venue).toBe("Outlier");
+    for (let i = 0; i < 4; i++) await route(registry);
+
+    const result = await route(registry);
+    expect(result.fills[0].venue).toBe("A");
+    expect(result.allQuotes.map((q) => q.source)).toEqual(["A", "B"]);
+
+    const outlier = registry.status().find((v) => v.name === "Outlier")!;
+    expect(outlier.health).toHaveLength(1);
+    expect(outlier.health[0].pair).toBe("EURUSDT");
+    expect(outlier.health[0].circuit).toBe("open");
+    expect(outlier.health[0].reason).toContain("from consensus mid");
+  });
+
+  test("a failing venue is skipped once its circuit opens", async () => {
+    let calls = 0;
+    const down = stubVenue("Down", 1.17, true);
+    const counted: VenueAdapter = { ...down, fetchQuote: (p) => (calls++, down.fetchQuote(p)) };
+    const adapters = [stubVenue("A", 1.17), counted];
+    const registry = new VenueRegistry(
+      adapters.map((a) => ({ name: a.name, enabled: true, penaltyBps: 0 })),
+      adapters,
+    );
+
+    for (let i = 0; i < 8; i++) await route(registry);
+    expect(calls).toBe(5);
+  });
+});
@@ -5,17 +5,80 @@ export type Currency = "USDT" | "EUR" | "BTC";
 export type Side = "BUY" | "SELL";
 
 // Trade execution type
-export type TradeType = "MARKET" | "RFQ";
+export type TradeType = "MARKET" | "RFQ" | "LIMIT";
+
+// Executed trades stay EXECUTED unless ops cancels or corrects them
+export type TradeStatus = "EXECUTED" | "CANCELLED" | "CORRECTED";
+
+// Which side of the pair a fee is charged in
+export type FeeCurrency = "BASE" | "QUOTE";
 
 // Quote lifecycle status
 export type QuoteStatus = "OPEN" | "EXECUTED" | "EXPIRED";
 
-// One Quote interface for all venues
+// Order kinds: an immediate market order, a resting limit, or a market
+// trade armed by a trigger price
+export type OrderType = "MARKET" | "LIMIT" | "STOP_LOSS" | "TAKE_PROFIT";
+
+// Order lifecycle status. Conditional orders pass through TRIGGERED while
+// their market trade runs; an order whose trade fails is REJECTED.
+export type OrderStatus =
+  | "NEW"
+  | "TRIGGERED"
+  | "FILLED"
+  | "CANCELLED"
+  | "EXPIRED"
+  | "REJECTED";
+
+// Entries in an order's event history: placement, amendments and every
+// status the order moved to
+export type OrderEventType = "PLACED" | "AMENDED" | Exclude<OrderStatus, "NEW">;
+
+// Algo parent orders: TWAP slices evenly, VWAP by a volume profile
+export type AlgoStrategy = "TWAP" | "VWAP";
+
+// Algo parent lifecycle. FAILED means the schedule ran out with quantity
+// left, because slices were rejected.
+export type AlgoStatus = "RUNNING" | "PAUSED" | "COMPLETED" | "CANCELLED" | "FAILED";
+
+// Venue liquidity classification
+export type LiquidityTier = "tier1" | "tier2" | "tier3";
+
+// One Quote interface for all venues, returned by every VenueAdapter.
+// bid and ask are scaled integers.
 export interface Quote {
   source: string;
   bid: number;
   ask: number;
-  liquidity: "tier1" | "tier2" | "tier3";
+  liquidity: LiquidityTier;
+  bidQty?: number; // size at bid and ask in the base currency, when the venue reports it
+  askQty?: number;
+}
+
+// A liquidity venue the SOR can price against
+export interface VenueAdapter {
+  name: string;
+  liquidity: LiquidityTier;
+  pairs: string[]; // supported pair symbols, e.g. "EURUSDT"
+  fetchQuote(pair: SupportedPair, signal?: AbortSignal): Promise<Quote>; // signal aborts at the deadline
+}
+
+// Registry entry for a venue. penaltyBps handicaps the venue when ranking
+// quotes, so it has to beat the others by that margin to win. timeoutMs is
+// the venue's own deadline, VENUE_TIMEOUT_MS when unset.
+export interface VenueConfig {
+  name: string;
+  enabled: boolean;
+  penaltyBps: number;
+  timeoutMs?: number;
+}
+
+// One listed market used to build a synthetic cross
+export interface PriceLeg {
+  pair: string; // listed market, e.g. "BTC_USDT"
+  side: Side;   // side traded on the listed market
+  price: string;
+  source?: string;
 }
 
 export interface PriceResponse {
@@ -24,11 +87,31 @@ export interface PriceResponse {
   askPrice: string;
   midPrice: string;
   timestamp: number;
+  provider: string; // market data provider, comma separated across legs
+  stale?: boolean; // last good price, served while every provider is down
+  // inverted pairs and synthetic crosses only
+  legs?: { pair: string; bidPrice: string; askPrice: string; provider: string }[];
 }
 
+// Price stream (websocket) messages
+export type StreamClientMessage =
+  | { type: "subscribe"; pairs: string[] }
+  | { type: "unsubscribe"; pairs: string[] }
+  | { type: "ping" };
+
+export type StreamServerMessage =
+  | { type: "price"; data: PriceResponse }
+  | { type: "subscribed"; pairs: string[] }
+  | { type: "unsubscribed"; pairs: string[] }
+  | { type: "heartbeat"; timestamp: number }
+  | { type: "pong"; timestamp: number }
+  | { type: "error"; error: { code: string; message: string } };
+
 export interface BalanceResponse {
   currency: Currency;
   amount: string;
+  reserved: string; // held by resting orders
+  available: string; // amount - reserved
 }
 
 export interface QuoteRequest {
@@ -36,6 +119,7 @@ export interface QuoteRequest {
   quoteCurrency: Currency;
   side: Side;
   amount: number;
+  amountCurrency?: Currency; // the leg amount is in and kept exact, baseCurrency by default
 }
 
 export interface QuoteResponse {
@@ -46,9 +130,78 @@ export interface QuoteResponse {
   baseAmount: string;
   quoteAmount: string;
   price: string;
+  amountCurrency: Currency; // the exact leg; the other is derived from the price
   expiresAt: number;
   status: QuoteStatus;
   createdAt: number;
+  legs?: PriceLeg[]; // inverted pairs and synthetic crosses only
+  levels?: ConsumedLevel[]; // order book depth the amount was priced against
+  venuePrice?: string; // before the spread; price is what the client pays or receives
+  spreadBps?: number;
+  fills?: ChildFill[]; // per-venue split on each listed market
+  venue?: string; // best priced venue on the first leg
+  venueQuotes?: VenueQuote[]; // every venue asked, per listed market
+}
+
+export type LastLookDecision = "ACCEPTED" | "REJECTED";
+
+export interface LastLookResponse {
+  id: string;
+  quoteId: string;
+  accountId: string;
+  side: Side;
+  quotedPrice: string;
+  venuePrice: string;
+  lossBps: number; // negative when the market moved in the house's favour
+  toleranceBps: number;
+  decision: LastLookDecision;
+  requoteId?: string;
+  createdAt: number;
+}
+
+// GET /api/v1/quotes filters, newest first
+export interface QuoteListFilter {
+  status?: QuoteStatus;
+  baseCurrency?: Currency;
+  quoteCurrency?: Currency;
+  from?: number; // createdAt, inclusive
+  to?: number;   // createdAt, exclusive
+  limit: number;
+  offset: number;
+}
+
+// Paging for list endpoints: total counts every match, not just this page
+export interface Pagination {
+  limit: number;
+  offset: number;
+  total: number;
+}
+
+// One order book level consumed when sizing an execution price
+export interface ConsumedLevel {
+  pair: string; // listed market, e.g. "BTC_USDT"
+  side: Side;
+  venue: string;
+  price: string;
+  qty: string; // base currency of the listed market
+}
+
+// One venue's share of a split order on a listed market
+export interface ChildFill {
+  venue: string;
+  pair: string;
+  side: Side;
+  qty: string; // base currency of the listed market
+  price: string; // volume-weighted over the venue's levels
+}
+
+// A venue's top of book when an order was priced, kept as best-execution evidence
+export interface VenueQuote {
+  pair: string; // listed market
+  venue: string;
+  bid?: string; // absent when the venue timed out
+  ask?: string;
+  timedOut?: boolean;
 }
 
 export interface MarketTradeRequest {
@@ -57,14 +210,150 @@ export interface MarketTradeRequest {
   quoteCurrency: Currency;
   side: Side;
   amount: number;
+  amountCurrency?: Currency; // the leg amount is in and kept exact, baseCurrency by default
+  maxSlippageBps?: number; // venue fill price vs the best price on the order's side
+  limitPrice?: number; // worst price the client accepts, spread included
 }
 
 export interface RfqTradeRequest {
   type: "RFQ";
   quoteId: string;
+  requote?: boolean; // on QUOTE_REPRICED, return a fresh quote with the error
+}
+
+export interface LimitTradeRequest {
+  type: "LIMIT";
+  baseCurrency: Currency;
+  quoteCurrency: Currency;
+  side: Side;
+  amount: number;
+  limitPrice: number; // worst price accepted, spread included
+  expiresAt?: number; // epoch ms, good till cancelled when absent
+}
+
+// A market trade placed once the side's price crosses triggerPrice
+export interface ConditionalTradeRequest {
+  type: "STOP_LOSS" | "TAKE_PROFIT";
+  baseCurrency: Currency;
+  quoteCurrency: Currency;
+  side: Side;
+  amount: number;
+  triggerPrice: number;
+  expiresAt?: number;
+}
+
+// A stop and a target on the same amount; whichever triggers cancels the other
+export interface OcoTradeRequest {
+  type: "OCO";
+  baseCurrency: Currency;
+  quoteCurrency: Currency;
+  side: Side;
+  amount: number;
+  stopPrice: number;
+  takeProfitPrice: number;
+  expiresAt?: number;
 }
 
-export type TradeRequest = MarketTradeRequest | RfqTradeRequest;
+// One market trade of a multi-leg conversion. A leg after the first may omit
+// amount to spend everything the previous leg received.
+export type ConversionLeg = Omit<MarketTradeRequest, "type" | "amount"> & { amount?: number };
+
+// Market trades priced together and booked all-or-nothing
+export interface MultiLegTradeRequest {
+  type: "MULTI_LEG";
+  legs: ConversionLeg[];
+}
+
+export type TradeRequest =
+  | MarketTradeRequest
+  | RfqTradeRequest
+  | LimitTradeRequest
+  | ConditionalTradeRequest
+  | OcoTradeRequest
+  | MultiLegTradeRequest;
+
+// POST /api/v1/orders: any single order, with an optional client order ID
+// unique per account
+export type PlaceOrderRequest = (
+  | MarketTradeRequest
+  | LimitTradeRequest
+  | ConditionalTradeRequest
+) & { clientOrderId?: string };
+
+// PATCH /api/v1/orders/:id: fields a NEW order may change
+export interface AmendOrderRequest {
+  amount?: number;
+  limitPrice?: number; // LIMIT only
+  triggerPrice?: number; // STOP_LOSS and TAKE_PROFIT only
+  expiresAt?: number | null; // null makes it good till cancelled
+}
+
+export interface AlgoOrderRequest {
+  strategy: AlgoStrategy;
+  baseCurrency: Currency;
+  quoteCurrency: Currency;
+  side: Side;
+  amount: number;
+  durationMs: number; // the slices are spread evenly over this
+  slices: number;
+  volumeProfile?: number[]; // VWAP: one weight per slice, VWAP_HOURLY_PROFILE when absent
+  maxSlippageBps?: number; // applied to every slice
+  limitPrice?: number; // applied to every slice
+}
+
+export interface AlgoOrderResponse {
+  id: string;
+  strategy: AlgoStrategy;
+  baseCurrency: Currency;
+  quoteCurrency: Currency;
+  side: Side;
+  totalAmount: string;
+  filledAmount: string;
+  remainingAmount: string;
+  averagePrice: string | null; // null until a slice fills
+  schedule: string[]; // base amount per slice
+  intervalMs: number;
+  slicesDone: number;
+  nextSliceAt: number | null; // null once the parent is done
+  maxSlippageBps?: number;
+  limitPrice?: string;
+  status: AlgoStatus;
+  reason?: string; // why the parent FAILED
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface OrderResponse {
+  id: string;
+  clientOrderId?: string;
+  parentId?: string; // the algo order this is a slice of
+  type: OrderType;
+  baseCurrency: Currency;
+  quoteCurrency: Currency;
+  side: Side;
+  baseAmount: string;
+  limitPrice?: string; // LIMIT, or a MARKET order's worst accepted price
+  triggerPrice?: string; // STOP_LOSS and TAKE_PROFIT only
+  ocoId?: string; // the linked order of an OCO pair
+  status: OrderStatus;
+  reservedCurrency: Currency;
+  reservedAmount: string; // held while a LIMIT order is NEW, zero for conditional orders
+  tradeId?: string; // set once FILLED
+  reason?: string; // why the order was REJECTED
+  expiresAt: number | null;
+  version: number; // bumped on every change
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface OrderEventResponse {
+  id: string;
+  orderId: string;
+  type: OrderEventType;
+  status: OrderStatus; // after the event
+  detail?: Record<string, unknown>;
+  createdAt: number;
+}
 
 export interface TradeResponse {
   id: string;
@@ -77,14 +366,64 @@ export interface TradeResponse {
   price: string;
   executedAt: number;
   createdAt: number;
+  legs?: PriceLeg[]; // inverted pairs and synthetic crosses only
+  fills?: ChildFill[]; // per-venue split on each listed market
+  venue?: string;
+  venueQuotes?: VenueQuote[];
+  orderId?: string; // the resting order a LIMIT trade filled
+  parentId?: string; // the multi-leg conversion this trade is a leg of
+  status: TradeStatus;
+  replacedBy?: string; // the trade that corrected this one
+  replaces?: string;   // the trade this one corrected
+  reason?: string;     // why ops cancelled or corrected it
+  revisedAt?: number;
+  fee: string;           // commission charged on top of the trade, "0.00000000" if none
+  feeCurrency: Currency;
 }
 
-// Binance API response shapes
-export interface BinanceTickerPrice {
-  symbol: string;
-  price: string;
+// Admin corrections: the fields that change, the rest are kept
+export interface CorrectTradeRequest {
+  baseAmount?: number;
+  quoteAmount?: number; // defaults to baseAmount × price when either changes
+  price?: number;
+  reason: string;
+}
+
+export interface MultiLegTradeResponse {
+  parentId: string;
+  trades: TradeResponse[]; // in leg order
+}
+
+// Admin fee schedules: no accountId or pair means every account or pair
+export interface FeeScheduleRequest {
+  accountId?: string;
+  pair?: string;
+  bps?: number;
+  flatFee?: number; // in the fee currency
+  minFee?: number;  // in the fee currency
+  feeCurrency: FeeCurrency;
+}
+
+export interface FeeScheduleResponse {
+  id: string;
+  accountId: string | null;
+  pair: string | null;
+  bps: number;
+  flatFee: string;
+  minFee: string;
+  feeCurrency: FeeCurrency;
+  createdAt: number;
+}
+
+// Fee revenue for one UTC day in one currency, net of refunds
+export interface FeeRevenueResponse {
+  day: string; // YYYY-MM-DD
+  currency: Currency;
+  amount: string;
+  trades: number;
 }
 
+// Binance API response shapes
 export interface BinanceBookTicker {
   symbol: string;
   bidPrice: string;
@@ -93,6 +432,12 @@ export interface BinanceBookTicker {
   askQty: string;
 }
 
+export interface BinanceDepth {
+  lastUpdateId: number;
+  bids: [string, string][]; // [price, qty], best first
+  asks: [string, string][];
+}
+
 // Internal config
 export interface SupportedPair {
   symbol: string;
@@ -107,15 +452,109 @@ export const SUPPORTED_PAIRS: SupportedPair[] = [
 
 export const CURRENCIES: Currency[] = ["USDT", "EUR", "BTC"];
 
+// Most listed markets a synthetic cross may chain together
+export const MAX_ROUTE_LEGS = 2;
+
+// Venues the SOR aggregates, overridable with a VENUE_CONFIG JSON env var
+export const VENUE_CONFIG: VenueConfig[] = [
+  { name: "Binance", enabled: true, penaltyBps: 0 },
+  { name: "MassiveFX", enabled: true, penaltyBps: 0 },
+  { name: "CoinGecko", enabled: true, penaltyBps: 0 },
+];
+
+// Venue aggregation: default per-venue deadline, and the overall budget after
+// which the quotes so far are used and slower venues count as timed out.
+// Sized for public REST venues; the env vars of the same name override them.
+export const VENUE_TIMEOUT_MS = 500;
+export const VENUE_BUDGET_MS = 750;
+
+// Venue health: outcomes kept per venue, and the thresholds that open its
+// circuit (excluded from pricing) until a probe after the cooldown passes
+export const VENUE_HEALTH_WINDOW = 20;
+export const VENUE_HEALTH_MIN_SAMPLES = 5;
+export const VENUE_MAX_ERROR_RATE = 0.5;
+export const VENUE_MAX_DEVIATION_BPS = 100;
+export const VENUE_COOLDOWN_MS = 30_000;
+
+// Quote notional (USDT) a venue is assumed to fill at its top of book when it
+// doesn't report size, by liquidity tier
+export const TIER_MAX_NOTIONAL: Record<LiquidityTier, number> = {
+  tier1: 1_000_000,
+  tier2: 100_000,
+  tier3: 10_000,
+};
+
 // Quote TTL in milliseconds (30 seconds)
 export const QUOTE_TTL_MS = 30_000;
 
-// Spread markup applied on top of Binance bid/ask (0.1%)
-export const SPREAD_MARKUP = 0.001;
+// Last look: how far (bps of the quoted price) the venue may move against the
+// house before an RFQ execution is rejected, LAST_LOOK_TOLERANCE_BPS overrides
+export const LAST_LOOK_TOLERANCE_BPS = 25;
+export const LAST_LOOK_LIST_LIMIT = 200;
+
+// Multi-leg conversions: legs per request
+export const MULTI_LEG_MAX_LEGS = 4;
+
+// Quotes past their TTL are marked EXPIRED in bulk this often
+export const QUOTE_SWEEP_INTERVAL_MS = 5_000;
+
+// GET /api/v1/quotes page size
+export const QUOTE_LIST_DEFAULT_LIMIT = 50;
+export const QUOTE_LIST_MAX_LIMIT = 200;
+
+// Book walks to settle the base amount of a trade sized in the quote currency
+export const QUOTE_AMOUNT_PASSES = 3;
+
+// Resting orders: the matcher runs on every price tick, and at least this often
+// so expiries are swept and REST-priced pairs are checked
+export const ORDER_MATCH_INTERVAL_MS = 1_000;
+
+// Algo runner: how often due slices are checked, and schedule bounds
+export const ALGO_TICK_MS = 500;
+export const ALGO_MAX_SLICES = 500;
+export const ALGO_MIN_INTERVAL_MS = 1_000;
+
+// Share of daily volume by UTC hour, for VWAP slices without a profile.
+// Thin in the Asian night, peaking at the London open and the London/New
+// York overlap.
+export const VWAP_HOURLY_PROFILE = [
+  2, 2, 2, 2, 2, 3, 4, 6, 7, 7, 6, 6,
+  7, 8, 8, 8, 7, 5, 4, 3, 3, 2, 2, 2,
+];
+
+// Order state machine: the statuses each status may move to
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  NEW: ["TRIGGERED", "FILLED", "CANCELLED", "EXPIRED", "REJECTED"],
+  TRIGGERED: ["FILLED", "REJECTED"],
+  FILLED: [],
+  CANCELLED: [],
+  EXPIRED: [],
+  REJECTED: [],
+};
+
+// The house account trade fees are credited to
+export const HOUSE_FEE_ACCOUNT_ID = "house-fees";
+
+// Spread markup when no spread schedule applies (0.1%)
+export const DEFAULT_SPREAD_BPS = 10;
 
 // Price cache TTL in milliseconds (5 seconds)
 export const PRICE_CACHE_TTL_MS = 5_000;
 
+// Order book depth: levels pulled per pair (a Binance depth limit) and how long they're cached
+export const DEPTH_LEVELS = 20;
+export const DEPTH_CACHE_TTL_MS = 1_000;
+
+// Price stream: server heartbeat interval
+export const STREAM_HEARTBEAT_MS = 15_000;
+
+// Price stream: buffered bytes on a socket above which price pushes are
+// conflated (latest per pair kept) until the socket drains
+export const STREAM_MAX_BUFFERED_BYTES = 64 * 1024;
+
+// Price stream: hard per-socket buffer cap, the connection is closed beyond it
+export const STREAM_BACKPRESSURE_LIMIT_BYTES = 1024 * 1024;
+
 // Rate limiter: max requests per window per account
 export const RATE_LIMIT_MAX = 100;
 
@@ -124,3 +563,36 @@ export const RATE_LIMIT_WINDOW_MS = 60_000;
 
 // Binance base URL (using data-api.binance.vision as it avoids 451 geo-blocks on US/SG cloud servers)
 export const BINANCE_BASE_URL = "https://data-api.binance.vision";
+
+// Binance main REST API, the last market data provider in the default chain
+export const BINANCE_API_URL = "https://api.binance.com";
+
+// Market data providers for display top of book, tried in order. Overridable
+// with a comma separated PRICE_PROVIDERS env var. "binance-api" and
+// "massivefx" are also available; api.binance.com is geo-blocked where
+// data-api.binance.vision is, so the last default is CoinGecko.
+export const PRICE_PROVIDERS = ["binance-stream", "binance-data-api", "coingecko"];
+
+// Deadline for one REST price provider's request, so a provider that hangs
+// fails over to the next instead of stalling the chain
+export const PRICE_PROVIDER_TIMEOUT_MS = 2_000;
+
+// Massive (formerly Polygon.io) REST API, used by the MassiveFX venue
+export const MASSIVE_BASE_URL = "https://api.massive.com";
+
+// CoinGecko REST API, used by the CoinGecko venue
+export const COINGECKO_BASE_URL = "https://api.coingecko.com/api/v3";
+
+// Binance market-data websocket (bookTicker streams), overridable with MARKET_DATA_URL
+export const BINANCE_STREAM_URL = "wss://data-stream.binance.vision";
+
+// Market data: a feed silent for this long is treated as dead and reconnected
+export const MARKET_DATA_STALE_MS = 10_000;
+
+// Market data: reconnect backoff, doubling from base up to max
+export const MARKET_DATA_RECONNECT_BASE_MS = 500;
+export const MARKET_DATA_RECONNECT_MAX_MS = 30_000;
+
+// Where top of book comes from, set with PRICE_SOURCE: the live stream, or
+// ticks replayed from a PRICE_FIXTURE file
+export type PriceSource = "live" | "replay";
@@ -0,0 +1,42 @@
+import { BINANCE_BASE_URL, type BinanceBookTicker, type VenueAdapter } from "../types";
+import { parsePrice } from "../money";
+import { Errors } from "../errors";
+import { marketData, priceSource } from "../services/market-data.service";
+
+// Binance venue — top of book from the streaming feed, or the public
+// bookTicker endpoint while the feed has no book for the pair. A replay
+// never falls back to the live endpoint.
+
+async function fetchBookTicker(symbol: string, signal?: AbortSignal): Promise<BinanceBookTicker> {
+  if (priceSource === "replay") {
+    throw Errors.priceFetchFailed(`No replayed book for ${symbol}`);
+  }
+  const res = await fetch(
+    `${BINANCE_BASE_URL}/api/v3/ticker/bookTicker?symbol=${symbol}`,
+    { signal },
+  );
+  if (!res.ok) {
+    throw Errors.priceFetchFailed(
+      `Binance bookTicker failed for ${symbol}: ${res.status}`,
+    );
+  }
+  return res.json();
+}
+
+export const binance: VenueAdapter = {
+  name: "Binance",
+  liquidity: "tier1",
+  pairs: ["EURUSDT", "BTCUSDT"],
+
+  async fetchQuote(pair, signal) {
+    const book = marketData.getBook(pair.symbol) ?? (await fetchBookTicker(pair.symbol, signal));
+    return {
+      source: "Binance",
+      bid: parsePrice(book.bidPrice),
+      ask: parsePrice(book.askPrice),
+      liquidity: "tier1",
+      bidQty: parsePrice(book.bidQty),
+      askQty: parsePrice(book.askQty),
+    };
+  },
+};
@@ -0,0 +1,54 @@
+import { COINGECKO_BASE_URL, type Currency, type VenueAdapter } from "../types";
+import { toScaled } from "../money";
+import { Errors } from "../errors";
+
+// CoinGecko venue — aggregated reference prices. CoinGecko publishes a single
+// price rather than a book, so a fixed half spread is applied around it.
+
+const COINGECKO_API_KEY = process.env.COINGECKO_API_KEY;
+const HALF_SPREAD_BPS = 2;
+
+type SimplePrice = Record<string, { usd: number; eur: number }>;
+
+// USD value of one unit of a currency. EUR is derived from tether's EUR price.
+function usdValue(currency: Currency, prices: SimplePrice): number {
+  switch (currency) {
+    case "BTC":
+      return prices.bitcoin.usd;
+    case "USDT":
+      return prices.tether.usd;
+    case "EUR":
+      return prices.tether.usd / prices.tether.eur;
+  }
+}
+
+export const coinGecko: VenueAdapter = {
+  name: "CoinGecko",
+  liquidity: "tier3",
+  pairs: ["EURUSDT", "BTCUSDT"],
+
+  async fetchQuote(pair, signal) {
+    const res = await fetch(
+      `${COINGECKO_BASE_URL}/simple/price?ids=bitcoin,tether&vs_currencies=usd,eur`,
+      {
+        signal,
+        ...(COINGECKO_API_KEY && { headers: { "x-cg-demo-api-key": COINGECKO_API_KEY } }),
+      },
+    );
+    if (!res.ok) {
+      throw Errors.priceFetchFailed(
+        `CoinGecko simple/price failed for ${pair.symbol}: ${res.status}`,
+      );
+    }
+
+    const prices: SimplePrice = await res.json();
+    const mid = usdValue(pair.base, prices) / usdValue(pair.quote, prices);
+
+    return {
+      source: "CoinGecko",
+      bid: toScaled(mid * (1 - HALF_SPREAD_BPS / 10_000)),
+      ask: toScaled(mid * (1 + HALF_SPREAD_BPS / 10_000)),
+      liquidity: "tier3",
+    };
+  },
+};
@@ -0,0 +1,171 @@
+import {
+  VENUE_COOLDOWN_MS,
+  VENUE_HEALTH_MIN_SAMPLES,
+  VENUE_HEALTH_WINDOW,
+  VENUE_MAX_DEVIATION_BPS,
+  VENUE_MAX_ERROR_RATE,
+} from "../types";
+
+// Venue health — error rate, latency and price deviation per venue and pair,
+// with a circuit breaker that takes misbehaving venues out of pricing
+
+// closed: quoting normally. open: excluded until the cooldown passes.
+// half-open: asked for a probe quote that isn't used for pricing.
+export type CircuitState = "closed" | "open" | "half-open";
+
+// One venue call, as seen by the aggregator
+export interface VenueOutcome {
+  ok: boolean;
+  latencyMs: number;
+  deviationBps?: number; // from the consensus mid, when enough venues quoted
+  error?: string;
+}
+
+interface VenueState {
+  venue: string;
+  pair: string; // symbol, e.g. "EURUSDT"
+  circuit: CircuitState;
+  samples: VenueOutcome[];
+  reason: string | null;
+  openedAt: number | null;
+}
+
+/**
+ * Median mid across the quotes, or null with fewer than three: with two
+ * venues there is no telling which one is off.
+ */
+export function consensusMid(mids: number[]): number | null {
+  if (mids.length < 3) return null;
+  const sorted = [...mids].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Tracks the last VENUE_HEALTH_WINDOW outcomes per venue and pair, so a
+ * venue that is down or off for one pair keeps quoting the others. A circuit
+ * whose error rate or average deviation crosses its limit is opened, then
+ * probed once the cooldown passes: a clean probe closes it, anything else
+ * reopens it.
+ */
+export class VenueHealth {
+  private venues = new Map<string, VenueState>(); // by "venue:pair"
+
+  constructor(
+    private cooldownMs: number = VENUE_COOLDOWN_MS,
+    private window: number = VENUE_HEALTH_WINDOW,
+    private minSamples: number = VENUE_HEALTH_MIN_SAMPLES,
+    private maxErrorRate: number = VENUE_MAX_ERROR_RATE,
+    private maxDeviationBps: number = VENUE_MAX_DEVIATION_BPS,
+  ) {}
+
+  /**
+   * Whether to ask the venue for a quote on the pair. An open circuit past
+   * its cooldown moves to half-open and the venue is asked for a probe.
+   */
+  canQuote(venue: string, pair: string): boolean {
+    const state = this.get(venue, pair);
+    if (state.circuit === "open" && Date.now() - state.openedAt! >= this.cooldownMs) {
+      state.circuit = "half-open";
+    }
+    return state.circuit !== "open";
+  }
+
+  /** Whether the venue's quotes on the pair may be used for pricing. */
+  isTrusted(venue: string, pair: string): boolean {
+    return this.get(venue, pair).circuit === "closed";
+  }
+
+  record(venue: string, pair: string, outcome: VenueOutcome): void {
+    const state = this.get(venue, pair);
+    state.samples.push(outcome);
+    if (state.samples.length > this.window) state.samples.shift();
+
+    if (state.circuit === "half-open") {
+      const failure = this.probeFailure(outcome);
+      if (failure) {
+        this.open(state, `probe failed: ${failure}`);
+      } else {
+        state.circuit = "closed";
+        state.samples = [outcome];
+        state.reason = null;
+        state.openedAt = null;
+      }
+      return;
+    }
+
+    if (state.circuit === "closed") {
+      const failure = this.tripReason(state.samples);
+      if (failure) this.open(state, failure);
+    }
+  }
+
+  status() {
+    return [...this.venues.values()].map((state) => {
+      const deviations = state.samples.flatMap((s) => s.deviationBps ?? []);
+      return {
+        venue: state.venue,
+        pair: state.pair,
+        circuit: state.circuit,
+        samples: state.samples.length,
+        errorRate: errorRate(state.samples),
+        avgLatencyMs: Math.round(average(state.samples.map((s) => s.latencyMs)) ?? 0),
+        avgDeviationBps: deviations.length ? Math.round(average(deviations)! * 100) / 100 : null,
+        lastError: [...state.samples].reverse().find((s) => !s.ok)?.error ?? null,
+        reason: state.reason,
+        openedAt: state.openedAt,
+        retryAt: state.openedAt === null ? null : state.openedAt + this.cooldownMs,
+      };
+    });
+  }
+
+  private get(venue: string, pair: string): VenueState {
+    const key = `${venue}:${pair}`;
+    let state = this.venues.get(key);
+    if (!state) {
+      state = { venue, pair, circuit: "closed", samples: [], reason: null, openedAt: null };
+      this.venues.set(key, state);
+    }
+    return state;
+  }
+
+  private open(state: VenueState, reason: string): void {
+    state.circuit = "open";
+    state.reason = reason;
+    state.openedAt = Date.now();
+  }
+
+  private probeFailure(outcome: VenueOutcome): string | null {
+    if (!outcome.ok) return outcome.error ?? "no quote";
+    if ((outcome.deviationBps ?? 0) > this.maxDeviationBps) {
+      return `price ${outcome.deviationBps!.toFixed(1)}bps from consensus mid`;
+    }
+    return null;
+  }
+
+  private tripReason(samples: VenueOutcome[]): string | null {
+    if (samples.length >= this.minSamples) {
+      const rate = errorRate(samples);
+      if (rate >= this.maxErrorRate) {
+        return `error rate ${Math.round(rate * 100)}% over last ${samples.length} calls`;
+      }
+    }
+
+    const deviations = samples.flatMap((s) => s.deviationBps ?? []);
+    if (deviations.length >= this.minSamples) {
+      const deviation = average(deviations)!;
+      if (deviation > this.maxDeviationBps) {
+        return `prices average ${deviation.toFixed(1)}bps from consensus mid`;
+      }
+    }
+    return null;
+  }
+}
+
+function errorRate(samples: VenueOutcome[]): number {
+  return samples.length ? samples.filter((s) => !s.ok).length / samples.length : 0;
+}
+
+function average(values: number[]): number | null {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
@@ -0,0 +1,107 @@
+import { z } from "zod";
+import { VENUE_CONFIG, type SupportedPair, type VenueAdapter, type VenueConfig } from "../types";
+import { binance } from "./binance";
+import { massiveFX } from "./massivefx";
+import { coinGecko } from "./coingecko";
+import { VenueHealth } from "./health";
+import { priceSource } from "../services/market-data.service";
+
+// Venue registry — binds venue config entries to the adapters that serve them
+
+export const ADAPTERS: VenueAdapter[] = [binance, massiveFX, coinGecko];
+
+export interface RegisteredVenue {
+  adapter: VenueAdapter;
+  config: VenueConfig;
+}
+
+// VENUE_CONFIG env var: strict, so a misspelt key fails instead of being ignored
+const venueConfigSchema = z
+  .array(
+    z
+      .object({
+        name: z.string().min(1),
+        enabled: z.boolean(),
+        penaltyBps: z.number().finite().nonnegative(),
+        timeoutMs: z.number().int().positive().optional(),
+      })
+      .strict(),
+  )
+  .refine((entries) => new Set(entries.map((e) => e.name)).size === entries.length, {
+    message: "venue names must be unique",
+  });
+
+/**
+ * Read the venue config, preferring a VENUE_CONFIG JSON env var over the
+ * defaults in types.ts so venues can be toggled without a code change.
+ * A replay only has fixture prices for Binance, so other venues default off.
+ * Throws if VENUE_CONFIG isn't valid JSON or doesn't match the schema.
+ */
+export function loadVenueConfig(): VenueConfig[] {
+  const raw = process.env.VENUE_CONFIG;
+  if (raw) {
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch (err) {
+      throw new Error(`VENUE_CONFIG is not valid JSON: ${err instanceof Error ? err.message : err}`);
+    }
+    const parsed = venueConfigSchema.safeParse(json);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+      throw new Error(`VENUE_CONFIG is invalid: ${issues.join("; ")}`);
+    }
+    return parsed.data;
+  }
+  if (priceSource === "replay") {
+    return VENUE_CONFIG.map((v) => ({ ...v, enabled: v.name === binance.name }));
+  }
+  return VENUE_CONFIG;
+}
+
+/**
+ * Holds the enabled venues in config order, and their health.
+ * Throws at construction if config names a venue with no adapter.
+ */
+export class VenueRegistry {
+  private venues: RegisteredVenue[] = [];
+
+  constructor(
+    config: VenueConfig[],
+    adapters: VenueAdapter[] = ADAPTERS,
+    readonly health: VenueHealth = new VenueHealth(),
+  ) {
+    for (const entry of config) {
+      const adapter = adapters.find((a) => a.name === entry.name);
+      if (!adapter) {
+        throw new Error(`No adapter registered for venue "${entry.name}"`);
+      }
+      this.venues.push({ adapter, config: entry });
+    }
+  }
+
+  /** Enabled venues that quote the given pair. */
+  forPair(pair: SupportedPair): RegisteredVenue[] {
+    return this.venues.filter(
+      (v) => v.config.enabled && v.adapter.pairs.includes(pair.symbol),
+    );
+  }
+
+  /** All configured venues, enabled or not. */
+  list(): RegisteredVenue[] {
+    return [...this.venues];
+  }
+
+  /** Config per venue and its health per pair it has quoted, for ops. */
+  status() {
+    const health = this.health.status();
+    return this.venues.map(({ adapter, config }) => ({
+      ...config,
+      liquidity: adapter.liquidity,
+      pairs: adapter.pairs,
+      health: health.filter((h) => h.venue === adapter.name),
+    }));
+  }
+}
+
+export const venueRegistry = new VenueRegistry(loadVenueConfig());
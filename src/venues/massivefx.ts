@@ -0,0 +1,51 @@
+import { MASSIVE_BASE_URL, type Currency, type VenueAdapter } from "../types";
+import { toScaled } from "../money";
+import { Errors } from "../errors";
+
+// MassiveFX venue — spot FX last quote from the Massive currencies API.
+// Only covers fiat crosses; USDT is priced as USD.
+
+const MASSIVE_API_KEY = process.env.MASSIVE_API_KEY;
+
+interface MassiveLastQuote {
+  status: string;
+  last?: { bid: number; ask: number; timestamp: number };
+}
+
+function fxCode(currency: Currency): string {
+  return currency === "USDT" ? "USD" : currency;
+}
+
+export const massiveFX: VenueAdapter = {
+  name: "MassiveFX",
+  liquidity: "tier2",
+  pairs: ["EURUSDT"],
+
+  async fetchQuote(pair, signal) {
+    if (!MASSIVE_API_KEY) {
+      throw Errors.priceFetchFailed("MassiveFX: MASSIVE_API_KEY is not set");
+    }
+
+    const res = await fetch(
+      `${MASSIVE_BASE_URL}/v1/last_quote/currencies/${fxCode(pair.base)}/${fxCode(pair.quote)}?apiKey=${MASSIVE_API_KEY}`,
+      { signal },
+    );
+    if (!res.ok) {
+      throw Errors.priceFetchFailed(
+        `MassiveFX last_quote failed for ${pair.symbol}: ${res.status}`,
+      );
+    }
+
+    const data: MassiveLastQuote = await res.json();
+    if (!data.last) {
+      throw Errors.priceFetchFailed(`MassiveFX returned no quote for ${pair.symbol}`);
+    }
+
+    return {
+      source: "MassiveFX",
+      bid: toScaled(data.last.bid),
+      ask: toScaled(data.last.ask),
+      liquidity: "tier2",
+    };
+  },
+};